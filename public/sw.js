@@ -0,0 +1,92 @@
+// 音質当てクイズのService Worker
+// ffmpeg-core(約30MB)やビルド済みアセットをCache Storageに保存し、2回目以降はネットワーク無しで起動できるようにする
+
+// 登録時に付けたビルドごとのIDをキャッシュ名に入れる。新しいビルドが有効になると、古いビルドのアセットはキャッシュごと消える
+const BUILD_ID = new URL(self.location.href).searchParams.get('v') ?? 'dev';
+const CACHE_NAME = `audio-quality-quiz-${BUILD_ID}`;
+// Viteがファイル名にハッシュを付けて出力するディレクトリ。public/から配信するファイルにはハッシュが付かない
+const HASHED_ASSET_PREFIX = '/assets/';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/favicon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// 初回訪問時はService Worker登録前に読み込まれたアセットがキャッシュされないため、ページ側から一覧を受け取って保存する
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CACHE_URLS' && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      caches.open(CACHE_NAME).then((cache) =>
+        Promise.all(
+          event.data.urls.map((url) =>
+            cache.match(url).then((cached) => (cached ? undefined : cache.add(url).catch(() => undefined)))
+          )
+        )
+      )
+    );
+  }
+});
+
+// レスポンスの複製をキャッシュへ書き込む。書き込みの途中でService Workerが止められないよう、イベントの寿命を延ばす
+// respondWithの応答が返るまではイベントが生きているので、その中から呼べばwaitUntilが受け付けられる
+// エラーページやリダイレクト先をアプリの代わりに保存しないよう、同一オリジンの成功した応答だけを書き込む
+function putInCache(event, key, response) {
+  if (!response.ok || response.type !== 'basic') {
+    return;
+  }
+  const copy = response.clone();
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.put(key, copy)));
+}
+
+// ネットワーク優先にして更新を取り込み、オフライン時だけキャッシュを返す
+function networkFirst(event, key) {
+  return fetch(event.request)
+    .then((response) => {
+      putInCache(event, key, response);
+      return response;
+    })
+    .catch(() => caches.match(key));
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // SPAの画面遷移は更新を取り込み、オフライン時だけキャッシュのindex.htmlを返す
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(event, '/index.html'));
+    return;
+  }
+
+  // マニフェスト、アイコン、同梱音源などpublic/のファイルはハッシュ無しで差し替えられるため、ネットワーク優先にする
+  if (!url.pathname.startsWith(HASHED_ASSET_PREFIX)) {
+    event.respondWith(networkFirst(event, request));
+    return;
+  }
+
+  // ビルド成果物はファイル名にハッシュが付いて不変なので、キャッシュ優先で返す
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) {
+        return cached;
+      }
+      return fetch(request).then((response) => {
+        putInCache(event, request, response);
+        return response;
+      });
+    })
+  );
+});
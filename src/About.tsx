@@ -1,13 +1,16 @@
 import { Container, Title } from '@mantine/core';
+import { useI18n } from './Component/useI18n';
 
 export default function About() {
+  const { t } = useI18n();
+
   return (
     <Container>
       <Title mt={'sm'} order={2}>
-        Aboutページ
+        {t.about.title}
       </Title>
       <Title order={6} mb={'sm'} c={'dimmed'}>
-        これはAboutページです。
+        {t.about.description}
       </Title>
     </Container>
   );
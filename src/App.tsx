@@ -1,18 +1,26 @@
 import '@mantine/core/styles.css';
-import { MantineProvider } from '@mantine/core';
+import { Group, MantineProvider } from '@mantine/core';
 import { BrowserRouter, Route, Routes } from 'react-router-dom';
 import About from './About';
+import { ColorSchemeToggle } from './ColorSchemeToggle/ColorSchemeToggle';
 import Home from './Home';
+import { LocaleSwitcher } from './LocaleSwitcher/LocaleSwitcher';
 import NotFound from './NotFound';
+import Stats from './Stats';
 import { theme } from './theme';
 
 export default function App() {
   return (
     <MantineProvider theme={theme}>
+      <Group justify='flex-end' gap='xs' px='md' pt='xs'>
+        <LocaleSwitcher />
+        <ColorSchemeToggle />
+      </Group>
       <BrowserRouter>
         <Routes>
           <Route path='/' element={<Home />} />
           <Route path='/about' element={<About />} />
+          <Route path='/stats' element={<Stats />} />
           <Route path='*' element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -1,13 +1,21 @@
 import { Button, Group, useMantineColorScheme } from '@mantine/core';
+import { useI18n } from '../Component/useI18n';
 
 export function ColorSchemeToggle() {
   const { setColorScheme } = useMantineColorScheme();
+  const { t } = useI18n();
 
   return (
-    <Group justify='center' mt='xl'>
-      <Button onClick={() => setColorScheme('light')}>Light</Button>
-      <Button onClick={() => setColorScheme('dark')}>Dark</Button>
-      <Button onClick={() => setColorScheme('auto')}>Auto</Button>
+    <Group gap={4}>
+      <Button size='xs' variant='default' onClick={() => setColorScheme('light')}>
+        {t.app.colorScheme.light}
+      </Button>
+      <Button size='xs' variant='default' onClick={() => setColorScheme('dark')}>
+        {t.app.colorScheme.dark}
+      </Button>
+      <Button size='xs' variant='default' onClick={() => setColorScheme('auto')}>
+        {t.app.colorScheme.auto}
+      </Button>
     </Group>
   );
 }
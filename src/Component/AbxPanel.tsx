@@ -0,0 +1,305 @@
+import { Alert, Badge, Button, Center, Group, NumberInput, Paper, Select, Stack, Table, Text } from '@mantine/core';
+import { useDisclosure, useInputState, useListState } from '@mantine/hooks';
+import { IconInfoCircle, IconKeyboard } from '@tabler/icons-react';
+import { useMemo, useRef, useState } from 'react';
+import type { Challenge } from '../lib/challenge';
+import { createRoundId, saveRound } from '../lib/historyStore';
+import { getProfileLabel, sortProfileIds, toProfileSelectData } from '../lib/profiles';
+import type { QuizTrack, RoundInfo } from '../lib/quiz';
+import { createRandom, createSeed } from '../lib/random';
+import { binomialPValue } from '../lib/stats';
+import { AudioTrackPlayer } from './AudioTrackPlayer';
+import { ChallengeShare } from './ChallengeShare';
+import { PlaybackControls } from './PlaybackControls';
+import { ShortcutHelp } from './ShortcutHelp';
+import type { AudioPlayback } from './useAudioEngine';
+import { useI18n } from './useI18n';
+import { useListeningHotkeys } from './useListeningHotkeys';
+
+type AbxChoice = 'A' | 'B';
+
+type AbxPhase = 'setup' | 'running' | 'result';
+
+type AbxSetupError = 'sameProfiles' | 'trialCount';
+
+type AbxTrialLog = {
+  trial: number;
+  x: AbxChoice;
+  answer: AbxChoice;
+  correct: boolean;
+  elapsedMs: number;
+};
+
+const DEFAULT_TRIAL_COUNT = 16;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+type AbxPanelProps = {
+  tracks: QuizTrack[];
+  playback: AudioPlayback;
+  roundInfo: RoundInfo | null;
+  // ABXのチャレンジリンクから開いた場合は、送り主と同じA/B・試行回数で始める
+  challenge: Challenge | null;
+};
+
+// A/Bの2種類の音質から毎回ランダムに選ばれるXを当てるABXテストを行うパネル
+export function AbxPanel({ tracks, playback, roundInfo, challenge }: AbxPanelProps) {
+  const { t } = useI18n();
+  const { playingTrackId, assignTrack, toggleTrack, playTrack, pause, stop } = playback;
+  const [phase, setPhase] = useState<AbxPhase>('setup');
+  // 初期値はラウンド内の先頭(最も低音質)と末尾のプロファイルにしておく
+  const [profileA, setProfileA] = useInputState<string | null>(
+    challenge?.profileIds[0] ?? tracks[0]?.profileId ?? null
+  );
+  const [profileB, setProfileB] = useInputState<string | null>(
+    challenge?.profileIds[1] ?? tracks[tracks.length - 1]?.profileId ?? null
+  );
+  const [trialCount, setTrialCount] = useInputState<string | number>(challenge?.trials ?? DEFAULT_TRIAL_COUNT);
+  // Xの割り当てを決める乱数のシード。最初の1回はラウンドのシードを使い、チャレンジと同じ並びを再現する
+  const [seed, setSeed] = useState(() => roundInfo?.seed ?? createSeed());
+  // Xの割り当ては開始時にまとめて抽選し、途中で回答に応じて偏らないようにする
+  const [assignments, setAssignments] = useState<AbxChoice[]>([]);
+  const [logs, logsHandler] = useListState<AbxTrialLog>([]);
+  const [error, setError] = useState<AbxSetupError | null>(null);
+  const trialStartedAtRef = useRef(0);
+  const [helpOpened, { toggle: toggleHelp, close: closeHelp }] = useDisclosure(false);
+
+  const profileOptions = useMemo(() => toProfileSelectData(tracks.map((track) => track.profileId)), [tracks]);
+  const currentTrial = logs.length;
+  const trackA = tracks.find((track) => track.profileId === profileA);
+  const trackB = tracks.find((track) => track.profileId === profileB);
+  const trackX = assignments[currentTrial] === 'A' ? trackA : trackB;
+  // XはA/Bと同じバッファを別IDで再生し、再生状態からどちらか推測できないようにする
+  const xId = `abx-x-${currentTrial}`;
+  const players =
+    trackA && trackB && trackX
+      ? [
+          { label: 'A', id: trackA.id, sourceId: trackA.id },
+          { label: 'B', id: trackB.id, sourceId: trackB.id },
+          { label: 'X', id: xId, sourceId: trackX.id }
+        ]
+      : [];
+
+  // 数字キー1/2/3でA/B/Xを切り替え、A/BキーでXの正体を答える
+  useListeningHotkeys({
+    enabled: phase === 'running' && players.length > 0,
+    playback,
+    trackIds: players.map((player) => player.id),
+    onSelectTrack: (index) => {
+      const { id, sourceId } = players[index];
+      assignX(id, sourceId);
+      playTrack(id);
+    },
+    answers: [() => handleAnswer('A'), () => handleAnswer('B')],
+    onToggleHelp: toggleHelp
+  });
+
+  function assignX(id: string, sourceId: string) {
+    if (id !== sourceId) {
+      assignTrack(id, sourceId);
+    }
+  }
+
+  function handleStart() {
+    if (!profileA || !profileB || profileA === profileB) {
+      setError('sameProfiles');
+      return;
+    }
+    const total = Number(trialCount);
+    if (!Number.isInteger(total) || total < 1) {
+      setError('trialCount');
+      return;
+    }
+    setError(null);
+    stop();
+    const random = createRandom(seed);
+    setAssignments(Array.from({ length: total }, () => (random() < 0.5 ? 'A' : 'B')));
+    logsHandler.setState([]);
+    trialStartedAtRef.current = performance.now();
+    setPhase('running');
+  }
+
+  function handleAnswer(answer: AbxChoice) {
+    const x = assignments[currentTrial];
+    // 再生したままだと次の試行のXを聞き比べる前に前回の音が残るため、回答ごとに一時停止する
+    // 再生位置は保持し、次の試行でも同じ箇所から聞き比べられるようにする
+    pause();
+    const log: AbxTrialLog = {
+      trial: currentTrial + 1,
+      x,
+      answer,
+      correct: x === answer,
+      elapsedMs: performance.now() - trialStartedAtRef.current
+    };
+    logsHandler.append(log);
+    trialStartedAtRef.current = performance.now();
+    if (currentTrial + 1 >= assignments.length) {
+      setPhase('result');
+      saveResult([...logs, log]);
+    }
+  }
+
+  // 全試行が終わった時点で1ラウンドとして履歴に保存する
+  function saveResult(allLogs: AbxTrialLog[]) {
+    if (!roundInfo || !trackA || !trackB) {
+      return;
+    }
+    const toProfileId = (choice: AbxChoice) => (choice === 'A' ? trackA.profileId : trackB.profileId);
+    saveRound({
+      id: createRoundId(),
+      timestamp: Date.now(),
+      fileName: roundInfo.fileName,
+      mode: 'abx',
+      profileIds: sortProfileIds([trackA.profileId, trackB.profileId]),
+      region: roundInfo.region,
+      answers: allLogs.map((item) => ({
+        truth: toProfileId(item.x),
+        guess: toProfileId(item.answer),
+        correct: item.correct
+      })),
+      listeningMs: allLogs.reduce((sum, item) => sum + item.elapsedMs, 0)
+    }).catch((error) => {
+      console.error(error);
+    });
+  }
+
+  function handleRestart() {
+    stop();
+    setSeed(createSeed());
+    logsHandler.setState([]);
+    setPhase('setup');
+  }
+
+  if (phase === 'setup' || !trackA || !trackB) {
+    return (
+      <Paper withBorder p='lg'>
+        <Stack>
+          <Text size='sm' c='dimmed'>
+            {t.abx.description}
+          </Text>
+          <Group grow>
+            <Select label='A' data={profileOptions} value={profileA} onChange={setProfileA} allowDeselect={false} />
+            <Select label='B' data={profileOptions} value={profileB} onChange={setProfileB} allowDeselect={false} />
+            <NumberInput label={t.abx.trialCount} min={1} max={100} value={trialCount} onChange={setTrialCount} />
+          </Group>
+          {error ? (
+            <Alert icon={<IconInfoCircle size={18} />} color='red' variant='light'>
+              {t.abx.errors[error]}
+            </Alert>
+          ) : null}
+          <Center>
+            <Button onClick={handleStart}>{t.abx.start}</Button>
+          </Center>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  if (phase === 'result') {
+    const correct = logs.filter((log) => log.correct).length;
+    const pValue = binomialPValue(correct, logs.length);
+    const significant = pValue < SIGNIFICANCE_LEVEL;
+    return (
+      <Paper withBorder p='lg'>
+        <Stack>
+          <Alert icon={<IconInfoCircle size={18} />} color={significant ? 'green' : 'yellow'} variant='light'>
+            <Text>
+              {t.abx.score(
+                getProfileLabel(trackA.profileId),
+                getProfileLabel(trackB.profileId),
+                correct,
+                logs.length,
+                pValue
+              )}
+            </Text>
+            {[trackA, trackB].map((track, index) =>
+              track.adjustment ? (
+                <Text key={track.id} size='xs' c='dimmed'>
+                  {index === 0 ? 'A' : 'B'}: {t.alignment.adjustment(track.adjustment)}
+                </Text>
+              ) : null
+            )}
+            <Text size='sm'>{significant ? t.abx.significant(SIGNIFICANCE_LEVEL) : t.abx.notSignificant}</Text>
+          </Alert>
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>{t.abx.columns.trial}</Table.Th>
+                <Table.Th>{t.abx.columns.x}</Table.Th>
+                <Table.Th>{t.abx.columns.answer}</Table.Th>
+                <Table.Th>{t.abx.columns.verdict}</Table.Th>
+                <Table.Th>{t.abx.columns.elapsed}</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {logs.map((log) => (
+                <Table.Tr key={log.trial}>
+                  <Table.Td>{log.trial}</Table.Td>
+                  <Table.Td>{log.x}</Table.Td>
+                  <Table.Td>{log.answer}</Table.Td>
+                  <Table.Td>
+                    <Badge color={log.correct ? 'green' : 'red'}>
+                      {log.correct ? t.results.correct : t.results.incorrect}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>{t.abx.elapsed(log.elapsedMs / 1000)}</Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+          {roundInfo ? (
+            <ChallengeShare
+              challenge={{
+                mode: 'abx',
+                profileIds: [trackA.profileId, trackB.profileId],
+                region: roundInfo.region,
+                seed,
+                trials: logs.length,
+                strictBlind: roundInfo.strictBlind,
+                score: { correct, total: logs.length }
+              }}
+            />
+          ) : null}
+          <Center>
+            <Button onClick={handleRestart}>{t.abx.restart}</Button>
+          </Center>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  function handleToggle(id: string, sourceId: string) {
+    assignX(id, sourceId);
+    toggleTrack(id);
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack gap='lg'>
+        <Text fw='bold'>{t.abx.trialProgress(currentTrial + 1, assignments.length)}</Text>
+        {players.map(({ label, id, sourceId }) => (
+          <AudioTrackPlayer
+            key={id}
+            label={label}
+            isPlaying={playingTrackId === id}
+            onToggle={() => handleToggle(id, sourceId)}
+          />
+        ))}
+        <PlaybackControls playback={playback} />
+        <Group justify='center'>
+          <Button onClick={() => handleAnswer('A')}>{t.abx.answer('A')}</Button>
+          <Button onClick={() => handleAnswer('B')}>{t.abx.answer('B')}</Button>
+          <Button variant='subtle' leftSection={<IconKeyboard size={18} />} onClick={toggleHelp}>
+            {t.quiz.keyboard}
+          </Button>
+        </Group>
+        <ShortcutHelp
+          opened={helpOpened}
+          onClose={closeHelp}
+          trackLabels={players.map((player) => player.label)}
+          answerLabels={['A', 'B']}
+          answerDescription={t.abx.answerDescription}
+        />
+      </Stack>
+    </Paper>
+  );
+}
@@ -1,495 +1,1197 @@
-import { FFmpeg, type LogEvent } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
 import {
   Alert,
   Anchor,
   Box,
   Button,
   Center,
+  Code,
+  FileButton,
   FileInput,
   Group,
-  LoadingOverlay,
+  MultiSelect,
+  NumberInput,
   Paper,
+  Progress,
+  SegmentedControl,
   Select,
   Stack,
+  Switch,
+  TagsInput,
   Text,
   Title
 } from '@mantine/core';
 import { useDisclosure, useInputState, useListState } from '@mantine/hooks';
-import { IconInfoCircle, IconPlayerPlayFilled, IconPlayerStopFilled } from '@tabler/icons-react';
-import type { Howl } from 'howler';
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import useSound from 'use-sound';
-
-const FF_CORE_BASE_URL = 'https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/esm';
-const CORE_JS_URL = `${FF_CORE_BASE_URL}/ffmpeg-core.js`;
-const CORE_WASM_URL = `${FF_CORE_BASE_URL}/ffmpeg-core.wasm`;
-const MAX_PLAY_SECONDS = 120;
-
-type QuizTrackQuality = 'mp3_128' | 'mp3_320' | 'original';
-
-type QuizTrack = {
-  id: string;
-  quality: QuizTrackQuality;
-  fileName: string;
-  url: string;
+import {
+  IconFolder,
+  IconInfoCircle,
+  IconKeyboard,
+  IconPlayerTrackNextFilled,
+  IconTargetArrow
+} from '@tabler/icons-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { decodeChallenge } from '../lib/challenge';
+import {
+  ConversionCancelledError,
+  type ConversionJob,
+  type ConvertedVariant,
+  type VariantProgress,
+  conversionService,
+  createCompletedJob
+} from '../lib/conversionService';
+import { ConversionError, withConversionStep } from '../lib/conversionSteps';
+import type { CoreDownloadProgress } from '../lib/ffmpegCore';
+import { createRoundId, saveRound } from '../lib/historyStore';
+import type { Messages } from '../lib/i18n';
+import { isMushraRound, withMushraProfiles } from '../lib/mushra';
+import {
+  MAX_PARTY_PLAYERS,
+  MIN_PARTY_PLAYERS,
+  type PartyState,
+  createParty,
+  normalizePlayerNames,
+  recordPartyTurn,
+  startPartyTurn
+} from '../lib/party';
+import {
+  DEFAULT_ROUND_PROFILE_IDS,
+  MAX_ROUND_PROFILES,
+  MIN_ROUND_PROFILES,
+  ORIGINAL_PROFILE_ID,
+  type ProfileId,
+  getProfileLabel,
+  pickReferenceProfileId,
+  sortProfileIds,
+  toProfileSelectData
+} from '../lib/profiles';
+import {
+  CLIP_LENGTH_OPTIONS,
+  type ClipRegion,
+  DEFAULT_CLIP_SECONDS,
+  type QuizResult,
+  type QuizTrack,
+  type RoundInfo,
+  createTrackId,
+  fitClipRegion,
+  formatSeconds,
+  gradeAnswers,
+  pickRandomClipStart,
+  shuffle
+} from '../lib/quiz';
+import { createRandom, createSeed } from '../lib/random';
+import type { ManifestRound } from '../lib/roundManifest';
+import {
+  SESSION_LOOKAHEAD_ROUNDS,
+  type SessionRound,
+  type SessionRoundScore,
+  collectAudioFiles,
+  planSessionRounds
+} from '../lib/session';
+import { assessSource } from '../lib/sourceProbe';
+import {
+  STAIRCASE_DIFFICULTIES,
+  STAIRCASE_LADDERS,
+  type Staircase,
+  type StaircaseDifficulty,
+  createStaircase,
+  getStaircaseLadder,
+  getStaircaseProfileId,
+  recordStaircaseAnswer
+} from '../lib/staircase';
+import { computePeaks } from '../lib/waveform';
+import { AbxPanel } from './AbxPanel';
+import { AudioTrackPlayer } from './AudioTrackPlayer';
+import { ChallengeShare } from './ChallengeShare';
+import { ConversionProgress } from './ConversionProgress';
+import { ForensicsPanel } from './ForensicsPanel';
+import { MushraPanel } from './MushraPanel';
+import { PartyPanel } from './PartyPanel';
+import { PlaybackControls } from './PlaybackControls';
+import { PregeneratedRounds } from './PregeneratedRounds';
+import { QuizResults, formatBytes } from './QuizResults';
+import { RoundExport } from './RoundExport';
+import { SessionSummary } from './SessionSummary';
+import { ShortcutHelp } from './ShortcutHelp';
+import { SourceInfoCard, type SourceProbeState } from './SourceInfoCard';
+import { StaircasePanel } from './StaircasePanel';
+import { TestSignalPicker } from './TestSignalPicker';
+import { WaveformSelector } from './WaveformSelector';
+import { FOLDER_INPUT_PROPS } from './folderInputProps';
+import { useAudioEngine } from './useAudioEngine';
+import { useI18n } from './useI18n';
+import { useListeningHotkeys } from './useListeningHotkeys';
+
+// 波形表示の横方向の分解能
+const WAVEFORM_BUCKETS = 1000;
+
+type SourcePreview = {
+  peaks: Float32Array;
+  duration: number;
 };
 
-type FeedbackState = {
+// 操作の案内やエラーなど、採点結果とは別に表示する通知
+type NoticeState = {
   text: string;
   tone: 'success' | 'error';
+  // 変換エラー時に添えるffmpegログの末尾
+  detail?: string;
 };
 
-const QUALITY_OPTIONS: Array<{ value: QuizTrackQuality; label: string }> = [
-  { value: 'mp3_128', label: 'mp3 128K' },
-  { value: 'mp3_320', label: 'mp3 320K' },
-  { value: 'original', label: 'オリジナル' }
-];
+type QuizMode = 'label' | 'abx' | 'mushra';
 
-const QUALITY_LABEL_MAP: Record<QuizTrackQuality, string> = {
-  mp3_128: 'mp3 128K',
-  mp3_320: 'mp3 320K',
-  original: 'オリジナル'
-};
+type SourceKind = 'single' | 'playlist' | 'builtin';
 
-function createTrackId(base: string, quality: QuizTrackQuality): string {
-  return `${base}-${quality}`;
-}
+const SOURCE_KINDS: SourceKind[] = ['single', 'playlist', 'builtin'];
 
-function shuffle<T>(items: T[]): T[] {
-  return [...items].sort(() => Math.random() - 0.5);
-}
+// 区間の長さのセレクトボックスで「最後まで」を表す値
+const FULL_CLIP_VALUE = 'full';
 
-// 各トラックの再生を管理するコンポーネント
-type AudioTrackPlayerProps = {
-  track: QuizTrack;
-  index: number;
-  isPlaying: boolean;
-  selectedAnswer: QuizTrackQuality | null;
-  onPlay: () => void;
-  onStop: () => void;
-  onSoundUpdate: (trackId: string, sound: Howl | null) => void;
-  onAnswerChange: (value: string | null) => void;
-};
-
-function AudioTrackPlayer({
-  track,
-  index,
-  isPlaying,
-  selectedAnswer,
-  onPlay,
-  onStop,
-  onSoundUpdate,
-  onAnswerChange
-}: AudioTrackPlayerProps) {
-  // useSoundの戻り値を分解し、Howlerインスタンスを直接取得して親に伝播できるように保持する
-  const [play, { stop, sound }] = useSound(track.url, {
-    format: ['mp3', 'wav'],
-    html5: true, // BlobURLの場合はHTML5モードを使用
-    onend: () => {
-      onStop();
-    },
-    onloaderror: (_id: unknown, error: unknown) => {
-      console.error('Sound load error:', error);
-    },
-    onplayerror: (_id: unknown, error: unknown) => {
-      console.error('Sound play error:', error);
-    }
-  });
+function toClipLengthSelectData(t: Messages) {
+  return CLIP_LENGTH_OPTIONS.map((seconds) => ({
+    value: seconds === null ? FULL_CLIP_VALUE : String(seconds),
+    label:
+      seconds === null
+        ? t.quiz.clipLengthFull
+        : seconds >= 60
+          ? t.quiz.clipLengthMinutes(seconds / 60)
+          : t.quiz.clipLengthSeconds(seconds)
+  }));
+}
 
-  const { id: trackId } = track;
+function toClipSeconds(value: string | null): number | null {
+  return value === null || value === FULL_CLIP_VALUE ? null : Number(value);
+}
 
-  // 再生状態とHowlerインスタンスの同期を手動で行い、useSound内部のキャッシュ差異によるズレを吸収する
-  useEffect(() => {
-    if (isPlaying && sound) {
-      onSoundUpdate(trackId, sound);
-      return;
-    }
-    onSoundUpdate(trackId, null);
-  }, [isPlaying, onSoundUpdate, sound, trackId]);
+const QUIZ_MODES: QuizMode[] = ['label', 'abx', 'mushra'];
 
-  const handlePlayClick = () => {
-    if (isPlaying) {
-      stop();
-      onStop();
-    } else {
-      play();
-      onPlay();
-    }
-  };
+// どの曲もまだ予想を選んでいない状態の解答
+function createEmptyAnswers(tracks: QuizTrack[]): Record<string, ProfileId | null> {
+  const answers: Record<string, ProfileId | null> = {};
+  for (const track of tracks) {
+    answers[track.id] = null;
+  }
+  return answers;
+}
 
-  return (
-    <Stack gap='xs'>
-      <Group>
-        <Button
-          leftSection={isPlaying ? <IconPlayerStopFilled size={18} /> : <IconPlayerPlayFilled size={18} />}
-          variant={isPlaying ? 'filled' : 'light'}
-          onClick={handlePlayClick}
-        >
-          {isPlaying ? `曲${index + 1}を停止` : `曲${index + 1}を再生`}
-        </Button>
-        <Select
-          placeholder='▼選択'
-          data={QUALITY_OPTIONS}
-          value={selectedAnswer ?? null}
-          onChange={onAnswerChange}
-          maw={200}
-        />
-      </Group>
-    </Stack>
-  );
+// 再生区間を「開始〜終了」の形で表す
+function formatRegion(t: Messages, region: ClipRegion): string {
+  return t.quiz.region(formatSeconds(region.start), formatSeconds(region.start + region.duration));
 }
 
 export function AudioQuiz() {
-  const ffmpegRef = useRef<FFmpeg | null>(null);
-  const objectUrlsRef = useRef<Set<string>>(new Set());
+  const { t } = useI18n();
   // useDisclosureで読み込み/変換といったブール状態を一括管理し、複雑なトグル処理を避けている
-  const [coreLoaded, { open: markCoreLoaded }] = useDisclosure(false);
+  // 変換サービスはコンポーネントより長生きするため、画面を開き直した時は読み込み済みの状態から始める
+  const [coreLoaded, { open: markCoreLoaded }] = useDisclosure(conversionService.isReady());
   const [coreLoading, { open: startCoreLoading, close: finishCoreLoading }] = useDisclosure(false);
+  // 初回はffmpeg-coreのダウンロードに時間がかかるため、受信バイト数を表示する
+  const [coreProgress, setCoreProgress] = useState<CoreDownloadProgress | null>(null);
   const [converting, { open: startConverting, close: finishConverting }] = useDisclosure(false);
+  const [variantProgress, setVariantProgress] = useState<VariantProgress[]>([]);
+  // 実行中の変換ジョブ。中止された場合はnullに戻し、後から届いた結果を破棄する
+  const jobRef = useRef<ConversionJob | null>(null);
   // 入力値の制御にはuseInputStateを採用し、Mantineの制御コンポーネントと双方向に同期しやすい形に揃える
   const [file, setFile] = useInputState<File | null>(null);
+  // ffprobeで調べた音源の情報。ffmpeg-coreの読み込み前やプレイリストではnull
+  const [sourceProbe, setSourceProbe] = useState<SourceProbeState | null>(null);
+  const [sourceAcknowledged, setSourceAcknowledged] = useState(false);
+  // ブラウザでデコードしたオリジナルの波形。デコードできない形式の場合はnullのまま先頭から変換する
+  const [sourcePreview, setSourcePreview] = useState<SourcePreview | null>(null);
+  // 変換・再生する区間。全バリアントをffmpegの-ss/-tで同じ区間に切り出すので、区間外はオリジナルも再生できない
+  const [region, setRegion] = useState<ClipRegion>(() => fitClipRegion(0, DEFAULT_CLIP_SECONDS, null));
+  const [clipLength, setClipLength] = useInputState<string | null>(String(DEFAULT_CLIP_SECONDS));
+  // 同じ曲で繰り返し遊ぶ時に毎回イントロにならないよう、変換のたびに開始位置を抽選する
+  const [randomStart, setRandomStart] = useInputState(false);
+  // ファイルを立て続けに選び直した場合に、古いデコード結果で上書きしないための世代番号
+  const previewGenerationRef = useRef(0);
   // QuizTrack配列はuseListStateで管理し、差分更新やシャッフルなどの配列操作をハンドラ経由で集約する
   const [tracks, tracksHandler] = useListState<QuizTrack>([]);
-  const [selectedAnswers, setSelectedAnswers] = useInputState<Record<string, QuizTrackQuality | null>>({});
-  const [feedback, setFeedback] = useInputState<FeedbackState | null>(null);
-  const [playingTrackId, setPlayingTrackId] = useState<string | null>(null);
-  // 再生中のトラックごとのHowlインスタンスを記録するリファレンス
-  const soundMapRef = useRef<Record<string, Howl | null>>({});
+  // ラウンドで比較するエンコードプロファイル。変換ボタンを押した時点の選択がそのままトラックになる
+  const [roundProfileIds, setRoundProfileIds] = useInputState<ProfileId[]>(DEFAULT_ROUND_PROFILE_IDS);
+  // 厳密ブラインドではオリジナルを含む全トラックを同一形式のWAVで再生し、形式の違いから答えが漏れないようにする
+  const [strictBlind, setStrictBlind] = useInputState(true);
+  const [selectedAnswers, setSelectedAnswers] = useInputState<Record<string, ProfileId | null>>({});
+  const [notice, setNotice] = useInputState<NoticeState | null>(null);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [revealLabels, setRevealLabels] = useState(false);
+  const [mode, setMode] = useInputState<QuizMode>('label');
+  const [sourceKind, setSourceKind] = useInputState<SourceKind>('single');
+  // プレイリストとして選ばれた音声ファイル。フォルダ選択時は音声以外を除いて並べ替えてある
+  const [playlistFiles, setPlaylistFiles] = useState<File[]>([]);
+  const [profilesPerRound, setProfilesPerRound] = useInputState<string | null>(String(MIN_ROUND_PROFILES + 1));
+  // 適応モード(階段法)。オリジナルと1つの非可逆バリアントを比べ、正誤に応じてビットレートを上下させる
+  const [staircaseEnabled, setStaircaseEnabled] = useInputState(false);
+  const [staircaseLadderId, setStaircaseLadderId] = useInputState<string | null>(STAIRCASE_LADDERS[0].id);
+  const [staircaseDifficulty, setStaircaseDifficulty] = useInputState<StaircaseDifficulty>('normal');
+  // MUSHRA形式。選んだ音質に隠しリファレンスとアンカーを加えて変換し、0〜100点で評価する
+  const [mushraEnabled, setMushraEnabled] = useInputState(false);
+  // パスアンドプレイ。変換した1つのラウンドに、名前を入れた複数人が1台の端末で順番に答える
+  const [partyEnabled, setPartyEnabled] = useInputState(false);
+  const [partyPlayers, setPartyPlayers] = useInputState<string[]>([]);
+  // 進行中のパスアンドプレイ。1人で遊ぶ場合はnull
+  const [party, setParty] = useState<PartyState | null>(null);
+  // 進行中の適応モード。通常の出題ではnull
+  const [staircase, setStaircase] = useState<Staircase | null>(null);
+  // 進行中のプレイリストセッション。1曲のみのラウンドではnull
+  const [session, setSession] = useState<SessionRound[] | null>(null);
+  const [sessionIndex, setSessionIndex] = useState(0);
+  const [sessionScores, setSessionScores] = useState<SessionRoundScore[]>([]);
+  // 先読みで積んだ変換ジョブ。キーはラウンド番号
+  // 区間を決めるために曲の長さを調べてから積むので、ジョブはPromiseで持つ
+  const sessionJobsRef = useRef(new Map<number, Promise<ConversionJob>>());
+  // 変換時点のファイル名と区間を控えておき、採点結果と一緒に履歴へ保存する
+  const [roundInfo, setRoundInfo] = useState<RoundInfo | null>(null);
+  // チャレンジリンク(/?m=...)から開いた場合の出題条件
+  const [searchParams] = useSearchParams();
+  const challenge = useMemo(() => decodeChallenge(searchParams), [searchParams]);
+  // 同じラウンドを何度採点し直しても履歴には最初の1回だけを残す
+  const roundSavedRef = useRef(false);
+  // 全バリアントのAudioBufferを保持する再生エンジン。音質当てとABXの両方で共有する
+  const playback = useAudioEngine();
+  const { engine, playingTrackId, loadTracks, clearTracks, toggleTrack, playTrack, stop } = playback;
+  const [helpOpened, { toggle: toggleHelp, close: closeHelp }] = useDisclosure(false);
 
-  // FFmpeg wasmインスタンスとObjectURLの寿命をアプリ全体に渡って正しく制御する
+  // リンクに含まれる出題条件を入力欄へ反映する。曲は受け取った側が手元のファイルを選ぶ
   useEffect(() => {
-    const ffmpeg = new FFmpeg();
-    const logHandler = ({ message }: LogEvent) => {
-      console.log(message);
-    };
-    ffmpeg.on('log', logHandler);
-    ffmpegRef.current = ffmpeg;
+    if (!challenge) {
+      return;
+    }
+    setSourceKind('single');
+    setRoundProfileIds(challenge.profileIds.slice(0, MAX_ROUND_PROFILES));
+    setRegion(challenge.region);
+    setStrictBlind(challenge.strictBlind);
+    setMode(challenge.mode);
+  }, [challenge, setSourceKind, setRoundProfileIds, setStrictBlind, setMode]);
+
+  // 音源を選び直すたびに解析し直す。ffmpeg-coreが読み込まれた時点で、選択済みの音源も解析する
+  useEffect(() => {
+    setSourceProbe(null);
+    setSourceAcknowledged(false);
+    if (!file || !coreLoaded) {
+      return;
+    }
+    let cancelled = false;
+    setSourceProbe({ status: 'probing' });
+    conversionService
+      .probe(file)
+      .then((info) => {
+        if (!cancelled) {
+          setSourceProbe({ status: 'done', info });
+        }
+      })
+      .catch((error) => {
+        console.warn(error);
+        if (!cancelled) {
+          setSourceProbe({ status: 'failed' });
+        }
+      });
     return () => {
-      for (const url of objectUrlsRef.current) {
-        URL.revokeObjectURL(url);
-      }
-      objectUrlsRef.current.clear();
-      ffmpeg.off('log', logHandler);
-      ffmpeg.terminate();
-      ffmpegRef.current = null;
+      cancelled = true;
     };
-  }, []);
+  }, [file, coreLoaded]);
 
-  // アップロードファイル名から拡張子を除去したベース名を抽出し、変換結果の識別子衝突を防ぐ
-  const baseFileName = useMemo(() => {
-    if (!file) {
-      return 'upload';
-    }
-    const dotIndex = file.name.lastIndexOf('.');
-    return dotIndex > 0 ? file.name.slice(0, dotIndex) : file.name;
-  }, [file]);
+  // 適応モードはプレイリストやチャレンジリンクの出題とは組み合わせない
+  const staircaseAvailable = sourceKind !== 'playlist' && !challenge;
+  const staircaseSelected = staircaseEnabled && staircaseAvailable;
+  // MUSHRAも1曲だけの出題で使い、適応モードとは排他にする
+  const mushraSelected = mushraEnabled && staircaseAvailable && !staircaseSelected;
+  // パスアンドプレイは音質当ての1ラウンドを全員で回すので、適応モードやMUSHRAとは組み合わせない
+  const partySelected = partyEnabled && staircaseAvailable && !staircaseSelected && !mushraSelected;
+  // 次のプレイヤーへの受け渡し中と全員の解答後は、曲と解答欄を隠す
+  const partyWaiting = party?.handover ?? false;
+  // 適応モードでは段に並んだすべてのビットレートが出題され得るので、それらと音源を比べる
+  const checkedProfileIds = useMemo(
+    () =>
+      staircaseSelected
+        ? [...(getStaircaseLadder(staircaseLadderId ?? '')?.profileIds ?? []), ORIGINAL_PROFILE_ID]
+        : mushraSelected
+          ? withMushraProfiles(roundProfileIds)
+          : roundProfileIds,
+    [staircaseSelected, staircaseLadderId, mushraSelected, roundProfileIds]
+  );
+  const sourceIssues = useMemo(
+    () => (sourceProbe?.status === 'done' ? assessSource(sourceProbe.info, checkedProfileIds) : []),
+    [sourceProbe, checkedProfileIds]
+  );
 
-  // オリジナルファイルの拡張子は保持しておき、コピー時はコーデックを弄らず正しいMIMEに結び付ける
-  const originalExtension = useMemo(() => {
-    if (!file) {
-      return 'orig';
+  const clipSeconds = toClipSeconds(clipLength);
+  // 区間を曲の中に収めるための曲の長さ。デコードできない形式ではffprobeの値を使う
+  const sourceDuration =
+    sourcePreview?.duration ?? (sourceProbe?.status === 'done' ? sourceProbe.info.durationSeconds : null);
+
+  function handleClipLengthChange(value: string | null) {
+    setClipLength(value);
+    setRegion(fitClipRegion(region.start, toClipSeconds(value), sourceDuration));
+  }
+
+  function handleClipStartChange(value: string | number) {
+    setRegion(fitClipRegion(Number(value) || 0, clipSeconds, sourceDuration));
+  }
+
+  // 変換の直前に区間を確定する。ランダム開始なら開始位置を抽選し、波形で選んだ長さはそのまま使う
+  // 「最後まで」でも波形で区間を選べるので、波形を表示している間はその長さを正とする
+  function resolveClipRegion(): ClipRegion {
+    if (challenge) {
+      return region;
     }
-    const dotIndex = file.name.lastIndexOf('.');
-    return dotIndex > 0 ? file.name.slice(dotIndex + 1) : 'orig';
-  }, [file]);
+    const length = clipSeconds === null && !sourcePreview ? null : region.duration;
+    const start = randomStart ? pickRandomClipStart(length, sourceDuration) : region.start;
+    return fitClipRegion(start, length, sourceDuration);
+  }
 
-  function getMimeByQuality(quality: QuizTrackQuality, originalType: string): string {
-    if (quality === 'original') {
-      return originalType || 'audio/mpeg';
+  async function handleFileChange(nextFile: File | null) {
+    setFile(nextFile);
+    setSourcePreview(null);
+    setRegion(challenge?.region ?? fitClipRegion(0, clipSeconds, null));
+    previewGenerationRef.current += 1;
+    const generation = previewGenerationRef.current;
+    if (!nextFile) {
+      return;
+    }
+    try {
+      const buffer = await engine.decode(nextFile);
+      if (generation !== previewGenerationRef.current) {
+        return;
+      }
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+      setSourcePreview({ peaks: computePeaks(channels, WAVEFORM_BUCKETS), duration: buffer.duration });
+      // チャレンジの区間は送り主の曲に合わせてあるので、そのまま使う
+      if (!challenge) {
+        setRegion(fitClipRegion(0, clipSeconds, buffer.duration));
+      }
+    } catch (error) {
+      // 波形はあくまで区間選択の補助なので、表示できなくても変換自体は続けられるようにする
+      console.warn(error);
     }
-    return 'audio/mpeg';
+  }
+
+  // 音源の種類ごとに選択欄が別なので、切り替えたら前の種類で選んだ音源を解析結果や波形ごと破棄する
+  function handleSourceKindChange(value: string) {
+    setSourceKind(value as SourceKind);
+    void handleFileChange(null);
   }
 
   async function loadCore() {
-    const ffmpeg = ffmpegRef.current;
     // FFmpegの多重ロードを避けつつ、ユーザーの二度押しによる競合も吸収する
-    if (!ffmpeg || coreLoaded) {
+    if (coreLoaded || coreLoading) {
       return;
     }
     startCoreLoading();
     try {
-      await ffmpeg.load({
-        coreURL: await toBlobURL(CORE_JS_URL, 'text/javascript'),
-        wasmURL: await toBlobURL(CORE_WASM_URL, 'application/wasm')
-      });
+      setCoreProgress({ received: 0, total: 0 });
+      await conversionService.load(setCoreProgress);
       markCoreLoaded();
-      // setFeedback({ text: 'ffmpeg-coreの読み込みが完了しました。', tone: 'success' });
+      // setNotice({ text: 'ffmpeg-coreの読み込みが完了しました。', tone: 'success' });
     } catch (error) {
-      setFeedback({ text: 'ffmpeg-coreの読み込みに失敗しました。時間をおいて再試行してください。', tone: 'error' });
+      setNotice({ text: t.quiz.notices.coreLoadFailed, tone: 'error' });
       console.error(error);
     } finally {
       finishCoreLoading();
+      setCoreProgress(null);
     }
   }
 
-  const resetPlayingState = useCallback(() => {
-    // useRefに蓄積したHowler参照はmutateだけでは解放されないため、参照を空オブジェクトに再構築する
-    setPlayingTrackId(null);
-    soundMapRef.current = {};
-  }, []);
+  // 1曲で出題する場合の共通チェック。問題が無ければ変換に使うファイルを返す
+  function validateSingleSource(): File | null {
+    if (!coreLoaded) {
+      setNotice({ text: t.quiz.notices.loadCoreFirst, tone: 'error' });
+      return null;
+    }
+    if (!file) {
+      setNotice({ text: t.quiz.notices.selectFile, tone: 'error' });
+      return null;
+    }
+    if (sourceIssues.some((issue) => issue.level === 'block') && !sourceAcknowledged) {
+      setNotice({ text: t.quiz.notices.acknowledgeSource, tone: 'error' });
+      return null;
+    }
+    return file;
+  }
 
-  const revokeTrackUrls = useCallback(() => {
-    // ObjectURLはGC任せにするとリークが起きるので、変換やアンマウント契機で明示的に解放する
-    for (const url of objectUrlsRef.current) {
-      URL.revokeObjectURL(url);
+  async function handleConvert() {
+    const sourceFile = validateSingleSource();
+    if (!sourceFile) {
+      return;
+    }
+    if (roundProfileIds.length < MIN_ROUND_PROFILES || roundProfileIds.length > MAX_ROUND_PROFILES) {
+      setNotice({ text: t.quiz.notices.profileCountRange(MIN_ROUND_PROFILES, MAX_ROUND_PROFILES), tone: 'error' });
+      return;
+    }
+    if (!prepareParty()) {
+      return;
+    }
+    endSession();
+    setStaircase(null);
+    if (mushraSelected) {
+      setMode('mushra');
+      await convertRound(sourceFile, withMushraProfiles(roundProfileIds));
+      return;
+    }
+    // MUSHRAの画面のまま、リファレンスやアンカーの無いラウンドを始めないようにする
+    if (mode === 'mushra') {
+      setMode('label');
     }
-    objectUrlsRef.current.clear();
-  }, []);
+    await convertRound(sourceFile, roundProfileIds);
+  }
 
-  const handleSoundUpdate = useCallback((trackId: string, sound: Howl | null) => {
-    // Howlerはミューテーション主体のAPIなので、参照の履歴が残らないよう最新状態で上書き保持する
-    soundMapRef.current[trackId] = sound;
-  }, []);
+  // 区間を確定して変換ジョブを積み、ラウンドを始める。通常の出題と適応モードの各ステップで共通
+  async function convertRound(sourceFile: File, profileIds: ProfileId[]) {
+    const clipRegion = resolveClipRegion();
+    setRegion(clipRegion);
+    // チャレンジリンクから開いた場合は送り主と同じシードで並べ、同じ出題順にする
+    await playJob(conversionService.enqueue({ file: sourceFile, profileIds, region: clipRegion, strictBlind }), {
+      fileName: sourceFile.name,
+      region: clipRegion,
+      seed: challenge?.seed ?? createSeed(),
+      strictBlind
+    });
+  }
 
-  async function handleConvert() {
-    const ffmpeg = ffmpegRef.current;
-    if (!ffmpeg || !coreLoaded) {
-      setFeedback({ text: 'まずはFFmpegを読み込んでください。', tone: 'error' });
+  async function handleStartStaircase() {
+    const sourceFile = validateSingleSource();
+    const ladder = getStaircaseLadder(staircaseLadderId ?? '');
+    if (!sourceFile || !ladder) {
       return;
     }
-    if (!file) {
-      setFeedback({ text: '楽曲を選択してください。', tone: 'error' });
+    endSession();
+    setParty(null);
+    const next = createStaircase(ladder, staircaseDifficulty);
+    setStaircase(next);
+    // 各ステップは音質当てと同じ画面で答える
+    setMode('label');
+    await convertRound(sourceFile, [getStaircaseProfileId(next), ORIGINAL_PROFILE_ID]);
+  }
+
+  // 採点時に段は更新済みなので、その段のバリアントを作って次のステップを出題する
+  function handleNextStaircaseStep() {
+    if (!staircase || !file) {
       return;
     }
+    void convertRound(file, [getStaircaseProfileId(staircase), ORIGINAL_PROFILE_ID]);
+  }
+
+  // 変換ジョブの完了を待って全バリアントを再生エンジンに読み込み、ラウンドを開始する
+  async function playJob(job: ConversionJob, settings: Omit<RoundInfo, 'startedAt'>) {
     startConverting();
-    // 変換開始時点で再生状態と既存URLを初期化し、UIとFFmpegの状態ズレを事前に解消する
-    resetPlayingState();
-    revokeTrackUrls();
+    // 変換開始時点で再生状態と既存バッファを初期化し、UIとFFmpegの状態ズレを事前に解消する
+    clearTracks();
     tracksHandler.setState([]);
-    const baseIdentifier = `${baseFileName}_${Date.now()}`;
-    // wasm FSは名前空間が薄いため、ミリ秒タイムスタンプを鍵にして競合しないプレフィックスを確保する
+    setResult(null);
+    setRevealLabels(false);
+    setNotice(null);
+    jobRef.current = job;
+    setVariantProgress(job.getProgress());
+    const unsubscribe = job.subscribe(setVariantProgress);
     try {
-      const inputName = `${baseIdentifier}_input.${originalExtension}`;
-      await ffmpeg.writeFile(inputName, await fetchFile(file));
-      const outputPlans: Array<{
-        quality: QuizTrackQuality;
-        outputName: string;
-        command: string[];
-        mime: string;
-      }> = [
-        {
-          quality: 'mp3_128',
-          outputName: `${baseIdentifier}_128.mp3`,
-          command: ['-i', inputName, '-t', String(MAX_PLAY_SECONDS), '-c:a', 'libmp3lame', '-b:a', '128k'],
-          mime: getMimeByQuality('mp3_128', file.type)
-        },
-        {
-          quality: 'mp3_320',
-          outputName: `${baseIdentifier}_320.mp3`,
-          command: ['-i', inputName, '-t', String(MAX_PLAY_SECONDS), '-c:a', 'libmp3lame', '-b:a', '320k'],
-          mime: getMimeByQuality('mp3_320', file.type)
-        },
-        {
-          quality: 'original',
-          outputName: `${baseIdentifier}_original.${originalExtension}`,
-          command: ['-i', inputName, '-t', String(MAX_PLAY_SECONDS), '-c', 'copy'],
-          mime: getMimeByQuality('original', file.type)
-        }
-      ];
-
-      const preparedTracks: QuizTrack[] = [];
-      // 各品質ごとのエンコードは直列実行してエラーハンドリングを簡略化し、FFmpeg側のキュー暴走を防いでいる
-      for (const plan of outputPlans) {
-        const args = [...plan.command, plan.outputName];
-        await ffmpeg.exec(args);
-        const data = await ffmpeg.readFile(plan.outputName);
-        // wasm FSは文字列/Uint8Arrayの両方を返し得るため、型を正規化してBlob生成を単純化する
-        const uint8Array = data instanceof Uint8Array ? new Uint8Array(data) : new TextEncoder().encode(data);
-        const blob = new Blob([uint8Array], { type: plan.mime });
-        const url = URL.createObjectURL(blob);
-        objectUrlsRef.current.add(url);
-        preparedTracks.push({
-          id: createTrackId(baseIdentifier, plan.quality),
-          quality: plan.quality,
-          fileName: plan.outputName,
-          url
-        });
+      const variants = await job.result;
+      const preparedTracks: QuizTrack[] = variants.map((variant) => ({
+        id: createTrackId(job.id, variant.profileId),
+        profileId: variant.profileId,
+        fileName: variant.fileName,
+        blob: variant.blob,
+        encodedBytes: variant.encodedBytes
+      }));
+      const loudness: Record<string, number | null> = {};
+      for (const variant of variants) {
+        loudness[createTrackId(job.id, variant.profileId)] = variant.loudness;
       }
 
       // トラックの提示順はシャッフルして認知バイアスを排除し、推測難易度を維持する
-      const shuffled = shuffle(preparedTracks);
-      tracksHandler.setState(shuffled);
-      const initialAnswers: Record<string, QuizTrackQuality | null> = {};
-      for (const track of shuffled) {
-        initialAnswers[track.id] = null;
+      const shuffled = shuffle(preparedTracks, createRandom(settings.seed));
+      // 切り替え時に同じ位置から鳴らせるよう、表示前に全バリアントをデコードしておく
+      const referenceProfileId = pickReferenceProfileId(variants.map((variant) => variant.profileId)) ?? '';
+      const adjustments = await withConversionStep('load', null, () =>
+        loadTracks(shuffled, loudness, createTrackId(job.id, referenceProfileId))
+      );
+      // デコード中に中止された場合は、結果を表示せずに破棄する
+      if (jobRef.current !== job) {
+        clearTracks();
+        throw new ConversionCancelledError();
       }
-      setSelectedAnswers(initialAnswers);
-      setFeedback({
-        text: `変換が完了しました。曲を再生して当ててみよう！(再生は冒頭${MAX_PLAY_SECONDS}秒まで)`,
-        tone: 'success'
-      });
+      const adjustedTracks = shuffled.map((track) => ({ ...track, adjustment: adjustments[track.id] }));
+      tracksHandler.setState(adjustedTracks);
+      setRoundInfo({ ...settings, startedAt: Date.now() });
+      roundSavedRef.current = false;
+      setSelectedAnswers(createEmptyAnswers(adjustedTracks));
+      setVariantProgress([]);
+      setNotice({ text: t.quiz.notices.converted(formatRegion(t, settings.region)), tone: 'success' });
     } catch (error) {
-      console.error(error);
-      setFeedback({ text: '音声変換に失敗しました。別のファイルでお試しください。', tone: 'error' });
+      if (error instanceof ConversionCancelledError) {
+        setVariantProgress([]);
+        setNotice({ text: t.conversion.cancelled, tone: 'error' });
+      } else {
+        console.error(error);
+        setNotice(
+          error instanceof ConversionError
+            ? {
+                text: t.conversion.failed(
+                  t.conversion.steps[error.step],
+                  error.profileId ? getProfileLabel(error.profileId) : null
+                ),
+                tone: 'error',
+                detail: error.logTail.join('\n') || undefined
+              }
+            : { text: t.quiz.notices.conversionFailed, tone: 'error' }
+        );
+      }
     } finally {
-      // wasm FS内の一時ファイルは徐々に肥大化するため、エラー時でもクリーンアップを徹底してメモリ圧迫を防ぐ
-      try {
-        const ffmpeg = ffmpegRef.current;
-        if (ffmpeg) {
-          const tempFiles = await ffmpeg.listDir('.');
-          for (const item of tempFiles) {
-            if (item.name.startsWith(baseIdentifier)) {
-              ffmpeg.deleteFile?.(item.name);
-            }
-          }
-        }
-      } catch (cleanupError) {
-        console.warn(cleanupError);
+      unsubscribe();
+      if (jobRef.current === job) {
+        jobRef.current = null;
       }
       finishConverting();
     }
   }
 
-  function handleTrackPlay(trackId: string) {
-    if (playingTrackId && playingTrackId !== trackId) {
-      const currentSound = soundMapRef.current[playingTrackId];
-      if (currentSound) {
-        currentSound.stop();
-      }
-      handleSoundUpdate(playingTrackId, null);
+  // CLIで変換済みのラウンドは、変換ジョブの代わりに完了済みのジョブとして出題する
+  async function handlePlayPregenerated(round: ManifestRound, variants: ConvertedVariant[]) {
+    if (!prepareParty()) {
+      return;
     }
-    setPlayingTrackId(trackId);
+    endSession();
+    setStaircase(null);
+    setMode('label');
+    await playJob(createCompletedJob(variants, round.region), {
+      fileName: round.fileName,
+      region: round.region,
+      seed: createSeed(),
+      strictBlind: round.strictBlind
+    });
   }
 
-  function handleTrackStop(trackId: string) {
-    handleSoundUpdate(trackId, null);
-    setPlayingTrackId((current) => (current === trackId ? null : current));
+  // 実行中のffmpegは変換サービス側で強制終了され、次の変換までに起動し直される
+  function cancelConversion() {
+    const job = jobRef.current;
+    if (!job) {
+      return;
+    }
+    jobRef.current = null;
+    job.cancel();
+    endSession();
   }
 
-  const handleSeek = useCallback(
-    (offsetSeconds: number) => {
-      // seekはHowler内部で遅延反映されるため、常に最新のインスタンスを参照する
-      if (!playingTrackId) {
-        return;
-      }
-      const targetSound = soundMapRef.current[playingTrackId];
-      if (!targetSound) {
-        return;
-      }
-      const currentPosition = targetSound.seek() as number;
-      const duration = targetSound.duration();
-      if (!Number.isFinite(duration)) {
-        return;
+  function handlePlaylistChange(files: File[]) {
+    setPlaylistFiles(collectAudioFiles(files));
+  }
+
+  // プレイリストでは曲ごとに波形を選ばないため、先頭または曲の長さから抽選した位置を開始位置にする
+  async function resolveSessionRegion(file: File): Promise<ClipRegion> {
+    if (!randomStart && clipSeconds !== null) {
+      return fitClipRegion(0, clipSeconds, null);
+    }
+    const info = await conversionService.probe(file).catch(() => null);
+    const duration = info?.durationSeconds ?? null;
+    return fitClipRegion(randomStart ? pickRandomClipStart(clipSeconds, duration) : 0, clipSeconds, duration);
+  }
+
+  // 先読み分だけ変換ジョブを積んでおく。全曲を一度に変換すると結果のBlobがメモリを圧迫するため
+  function prefetchSessionRounds(rounds: SessionRound[], fromIndex: number) {
+    const lastIndex = Math.min(rounds.length - 1, fromIndex + SESSION_LOOKAHEAD_ROUNDS);
+    for (let index = fromIndex; index <= lastIndex; index += 1) {
+      if (sessionJobsRef.current.has(index)) {
+        continue;
       }
-      // 端点をclampし、操作ごとに累積誤差を防いで意図しないマイナス方向のオーバーフローを抑止する
-      const nextPosition = Math.min(Math.max(currentPosition + offsetSeconds, 0), duration);
-      targetSound.seek(nextPosition);
-    },
-    [playingTrackId]
+      const round = rounds[index];
+      const pending = resolveSessionRegion(round.file).then((region) => {
+        const job = conversionService.enqueue({ file: round.file, profileIds: round.profileIds, region, strictBlind });
+        // 先読み中の失敗はそのラウンドを開始した時点で通知する
+        job.result.catch(() => undefined);
+        return job;
+      });
+      sessionJobsRef.current.set(index, pending);
+    }
+  }
+
+  async function playSessionRound(rounds: SessionRound[], index: number) {
+    setSessionIndex(index);
+    prefetchSessionRounds(rounds, index);
+    const pending = sessionJobsRef.current.get(index);
+    if (!pending) {
+      return;
+    }
+    // 再生を始めたラウンドのジョブは手放し、次のラウンドに進んだ時点で変換結果が解放されるようにする
+    sessionJobsRef.current.delete(index);
+    const job = await pending;
+    await playJob(job, { fileName: rounds[index].file.name, region: job.region, seed: createSeed(), strictBlind });
+  }
+
+  async function handleStartSession() {
+    if (!coreLoaded) {
+      setNotice({ text: t.quiz.notices.loadCoreFirst, tone: 'error' });
+      return;
+    }
+    if (playlistFiles.length === 0) {
+      setNotice({ text: t.quiz.notices.selectPlaylist, tone: 'error' });
+      return;
+    }
+    if (roundProfileIds.length < MIN_ROUND_PROFILES) {
+      setNotice({ text: t.quiz.notices.profileCountMin(MIN_ROUND_PROFILES), tone: 'error' });
+      return;
+    }
+    endSession();
+    setStaircase(null);
+    setParty(null);
+    const rounds = planSessionRounds(playlistFiles, roundProfileIds, Number(profilesPerRound));
+    setSession(rounds);
+    setSessionScores([]);
+    // セッションの採点は音質当てで行うため、ABXの画面からは抜けておく
+    setMode('label');
+    await playSessionRound(rounds, 0);
+  }
+
+  function handleNextRound() {
+    if (!session || sessionIndex >= session.length - 1) {
+      return;
+    }
+    // 変換に失敗して採点できなかったラウンドは0問として記録し、番号がずれないようにする
+    if (sessionScores.length === sessionIndex) {
+      setSessionScores([...sessionScores, { fileName: session[sessionIndex].file.name, correct: 0, total: 0 }]);
+    }
+    void playSessionRound(session, sessionIndex + 1);
+  }
+
+  // 先読み中のジョブも含めてセッションを破棄する
+  function endSession() {
+    for (const pending of sessionJobsRef.current.values()) {
+      void pending.then((job) => job.cancel());
+    }
+    sessionJobsRef.current.clear();
+    setSession(null);
+    setSessionScores([]);
+  }
+
+  // パスアンドプレイを選んでいればプレイヤーを確かめて始める。人数が合わない場合はfalseを返す
+  function prepareParty(): boolean {
+    if (!partySelected) {
+      setParty(null);
+      return true;
+    }
+    const players = normalizePlayerNames(partyPlayers);
+    if (players.length < MIN_PARTY_PLAYERS || players.length > MAX_PARTY_PLAYERS) {
+      setNotice({ text: t.quiz.notices.partyPlayers(MIN_PARTY_PLAYERS, MAX_PARTY_PLAYERS), tone: 'error' });
+      return false;
+    }
+    setParty(createParty(players));
+    // 全員が音質当てで答えるので、ABXの画面からは抜けておく
+    setMode('label');
+    return true;
+  }
+
+  // 前のプレイヤーの並び順や解答が残らないよう、曲を並べ替えて解答を空にしてから渡す
+  function handleStartPartyTurn() {
+    if (!party) {
+      return;
+    }
+    stop();
+    tracksHandler.setState(shuffle(tracks));
+    setSelectedAnswers(createEmptyAnswers(tracks));
+    setParty(startPartyTurn(party));
+  }
+
+  // パスアンドプレイのラウンドは並べ替え済みで、だれかの解答が途中まで入っていることもある
+  // そのまま1人用のラウンドとして採点・保存されないよう、ラウンドごと片付ける
+  function handleEndParty() {
+    stop();
+    clearTracks();
+    tracksHandler.setState([]);
+    setSelectedAnswers({});
+    setResult(null);
+    setRoundInfo(null);
+    setParty(null);
+  }
+
+  // 1曲あたりの比較数は、選択した音質の数を上限にする
+  const profilesPerRoundOptions = useMemo(
+    () =>
+      Array.from({ length: Math.max(roundProfileIds.length - MIN_ROUND_PROFILES + 1, 1) }, (_, index) =>
+        String(MIN_ROUND_PROFILES + index)
+      ),
+    [roundProfileIds.length]
   );
 
+  // 解答の選択肢は実際にラウンドへ含まれたプロファイルだけに絞り、存在しない音質を選べないようにする
+  // ラベルは表示言語によって変わるので、描画のたびに組み立てる
+  const answerOptions = toProfileSelectData(tracks.map((track) => track.profileId));
+  // キーボードのA, B, C...はセレクトボックスの並び順どおりに割り当てる
+  const answerItems = answerOptions.flatMap((group) => group.items);
+
+  useListeningHotkeys({
+    enabled: mode === 'label' && tracks.length > 0 && !converting && !partyWaiting,
+    playback,
+    trackIds: tracks.map((track) => track.id),
+    onSelectTrack: (index) => playTrack(tracks[index].id),
+    // 文字キーは再生中の曲への解答。何も鳴っていない時は無視する
+    answers: answerItems.map((item) => () => {
+      if (playingTrackId && tracks.some((track) => track.id === playingTrackId)) {
+        handleAnswerChange(playingTrackId, item.value);
+      }
+    }),
+    onSubmit: checkAnswers,
+    onToggleHelp: toggleHelp
+  });
+
+  function handleModeChange(value: string) {
+    // モードを切り替えた時点で鳴っている曲を止め、別モードの再生と重ならないようにする
+    stop();
+    setMode(value as QuizMode);
+  }
+
   function handleAnswerChange(trackId: string, value: string | null) {
     if (!value) {
       setSelectedAnswers({ ...selectedAnswers, [trackId]: null });
       return;
     }
-    setSelectedAnswers({ ...selectedAnswers, [trackId]: value as QuizTrackQuality });
+    setSelectedAnswers({ ...selectedAnswers, [trackId]: value });
   }
 
   function checkAnswers() {
     if (tracks.length === 0) {
-      setFeedback({ text: 'まずは曲を変換してください。', tone: 'error' });
+      setNotice({ text: t.quiz.notices.convertFirst, tone: 'error' });
       return;
     }
     const unanswered = tracks.some((track) => !selectedAnswers[track.id]);
     if (unanswered) {
-      setFeedback({ text: 'すべての曲で予想を選択してください。', tone: 'error' });
+      setNotice({ text: t.quiz.notices.answerAll, tone: 'error' });
+      return;
+    }
+    // 採点結果は文字列ではなく構造化したデータとして保持し、結果表示コンポーネントに渡す
+    const graded = gradeAnswers(tracks, selectedAnswers);
+    setNotice(null);
+    // パスアンドプレイでは結果を全員が答え終わるまで伏せ、次のプレイヤーへの受け渡しに移る
+    // 1台を複数人で使うため、個人の成績の履歴には保存しない
+    if (party) {
+      stop();
+      setParty(recordPartyTurn(party, graded));
       return;
     }
-    let correct = 0;
-    const details: string[] = [];
-    // ユーザーへのフィードバックは最終結果だけでなく講評形式で返し、学習体験につなげている
-    for (let index = 0; index < tracks.length; index += 1) {
-      const track = tracks[index];
-      const answer = selectedAnswers[track.id];
-      const isCorrect = answer === track.quality;
-      if (isCorrect) {
-        correct += 1;
+    setResult(graded);
+    if (roundInfo && !roundSavedRef.current) {
+      roundSavedRef.current = true;
+      // 適応モードでは、オリジナルと非可逆バリアントの両方を当てられた場合だけ聞き分けられたとみなす
+      if (staircase) {
+        setStaircase(recordStaircaseAnswer(staircase, graded.correct === graded.total));
       }
-      const label = `曲${index + 1}`;
-      const actual = QUALITY_LABEL_MAP[track.quality];
-      const guessed = answer ? QUALITY_LABEL_MAP[answer] : '未選択';
-      details.push(`${label}: 正解 ${actual} / あなたの選択 ${guessed}`);
-    }
-    const message = [`${tracks.length}問中${correct}問正解でした。`, ...details].join('\n');
-    setFeedback({
-      text: message,
-      tone: correct === tracks.length ? 'success' : 'error'
-    });
+      if (session && sessionScores.length === sessionIndex) {
+        setSessionScores([
+          ...sessionScores,
+          { fileName: roundInfo.fileName, correct: graded.correct, total: graded.total }
+        ]);
+      }
+      saveRound({
+        id: createRoundId(),
+        timestamp: Date.now(),
+        fileName: roundInfo.fileName,
+        mode: 'label',
+        profileIds: sortProfileIds(tracks.map((track) => track.profileId)),
+        region: roundInfo.region,
+        answers: graded.rows.map(({ truth, guess, correct }) => ({ truth, guess, correct })),
+        listeningMs: Date.now() - roundInfo.startedAt
+      }).catch((error) => {
+        console.error(error);
+      });
+    }
   }
 
   return (
     <Box>
-      <LoadingOverlay visible={coreLoading || converting} />
       <Stack gap='lg'>
         <Box>
           <Anchor href='/'>
-            <Title order={2}>音質当てクイズ</Title>
+            <Title order={2}>{t.quiz.title}</Title>
           </Anchor>
           <Title order={6} c={'dimmed'}>
-            自分の楽曲をアップロードして、音質の違いがわかるかチャレンジ！
+            {t.quiz.subtitle}
           </Title>
+          <Anchor component={Link} to='/stats' size='sm'>
+            {t.quiz.statsLink}
+          </Anchor>
         </Box>
 
+        {challenge ? (
+          <Alert icon={<IconTargetArrow size={18} />} color='grape' variant='light' title={t.quiz.challenge.title}>
+            <Text size='sm'>{t.quiz.challenge.description}</Text>
+            <Text size='sm'>
+              {t.quiz.modes[challenge.mode]} / {challenge.profileIds.map(getProfileLabel).join(', ')} /{' '}
+              {formatRegion(t, challenge.region)}
+              {challenge.trials ? ` / ${t.quiz.challenge.trials(challenge.trials)}` : ''}
+            </Text>
+            {challenge.score ? (
+              <Text size='sm' fw='bold'>
+                {t.quiz.challenge.senderScore(challenge.score.correct, challenge.score.total)}
+              </Text>
+            ) : null}
+          </Alert>
+        ) : null}
+
         <Paper withBorder p='lg'>
           <Stack>
-            <Text fw={'bold'}>1. FFmpegのダウンロード</Text>
+            <Text fw={'bold'}>{t.quiz.steps.download}</Text>
             <Button onClick={loadCore} disabled={coreLoaded} maw={260}>
-              {coreLoaded ? 'ダウンロード済' : 'FFmpegをダウンロード(約30MB)'}
+              {coreLoaded ? t.quiz.downloaded : t.quiz.download}
             </Button>
-            <Text fw={'bold'}>2. 楽曲ファイルの選択</Text>
-            <FileInput placeholder='選択' accept='audio/*' value={file} onChange={setFile} />
+            {coreLoading && coreProgress ? (
+              <Stack gap={4}>
+                <Progress
+                  value={coreProgress.total > 0 ? (coreProgress.received / coreProgress.total) * 100 : 100}
+                  animated={coreProgress.total === 0}
+                />
+                <Text size='sm' c='dimmed'>
+                  {formatBytes(coreProgress.received)}
+                  {coreProgress.total > 0 ? ` / ${formatBytes(coreProgress.total)}` : ''}
+                </Text>
+              </Stack>
+            ) : null}
+            <Text fw={'bold'}>{t.quiz.steps.source}</Text>
+            <SegmentedControl
+              data={SOURCE_KINDS.map((value) => ({ value, label: t.quiz.sourceKinds[value] }))}
+              value={sourceKind}
+              onChange={handleSourceKindChange}
+              maw={260}
+            />
+            {sourceKind === 'playlist' ? (
+              <Stack gap='xs'>
+                <Group gap='xs' align='flex-end'>
+                  <FileInput
+                    flex={1}
+                    multiple
+                    placeholder={t.quiz.playlistPlaceholder}
+                    accept='audio/*'
+                    value={playlistFiles}
+                    onChange={handlePlaylistChange}
+                  />
+                  <FileButton multiple onChange={handlePlaylistChange} inputProps={FOLDER_INPUT_PROPS}>
+                    {(props) => (
+                      <Button variant='light' leftSection={<IconFolder size={18} />} {...props}>
+                        {t.quiz.selectFolder}
+                      </Button>
+                    )}
+                  </FileButton>
+                </Group>
+                <Text size='sm' c='dimmed'>
+                  {t.quiz.playlistDescription(playlistFiles.length)}
+                </Text>
+              </Stack>
+            ) : sourceKind === 'builtin' ? (
+              <TestSignalPicker
+                onSelect={handleFileChange}
+                onError={(message) => setNotice({ text: message, tone: 'error' })}
+              />
+            ) : (
+              <FileInput
+                placeholder={t.quiz.filePlaceholder}
+                accept='audio/*'
+                value={file}
+                onChange={handleFileChange}
+              />
+            )}
+            {sourceKind !== 'playlist' && sourceProbe ? (
+              <SourceInfoCard
+                probe={sourceProbe}
+                issues={sourceIssues}
+                acknowledged={sourceAcknowledged}
+                onAcknowledgedChange={setSourceAcknowledged}
+              />
+            ) : null}
+            {sourceKind !== 'playlist' && sourcePreview ? (
+              <WaveformSelector
+                peaks={sourcePreview.peaks}
+                duration={sourcePreview.duration}
+                region={region}
+                maxRegionSeconds={clipSeconds ?? sourcePreview.duration}
+                onRegionChange={setRegion}
+                disabled={challenge !== null}
+              />
+            ) : null}
+            <Group align='flex-end'>
+              <Select
+                label={t.quiz.clipLength}
+                data={toClipLengthSelectData(t)}
+                value={clipLength}
+                onChange={handleClipLengthChange}
+                allowDeselect={false}
+                disabled={challenge !== null}
+                maw={140}
+              />
+              {sourceKind !== 'playlist' ? (
+                <NumberInput
+                  label={t.quiz.clipStart}
+                  min={0}
+                  decimalScale={1}
+                  value={Number(region.start.toFixed(1))}
+                  onChange={handleClipStartChange}
+                  disabled={challenge !== null || randomStart}
+                  maw={140}
+                />
+              ) : null}
+              <Switch
+                label={t.quiz.randomStart}
+                checked={randomStart}
+                onChange={setRandomStart}
+                disabled={challenge !== null}
+                mb={8}
+              />
+            </Group>
+            <Text fw={'bold'}>{t.quiz.steps.profiles}</Text>
+            <Switch
+              label={t.quiz.staircase}
+              checked={staircaseSelected}
+              onChange={setStaircaseEnabled}
+              disabled={!staircaseAvailable || staircase !== null}
+            />
+            <Switch
+              label={t.quiz.mushra}
+              checked={mushraSelected}
+              onChange={setMushraEnabled}
+              disabled={!staircaseAvailable || staircaseSelected}
+            />
+            <Switch
+              label={t.party.enable}
+              checked={partySelected}
+              onChange={setPartyEnabled}
+              disabled={!staircaseAvailable || staircaseSelected || mushraSelected}
+            />
+            {partySelected ? (
+              <TagsInput
+                label={t.party.players}
+                placeholder={t.party.playersPlaceholder(MIN_PARTY_PLAYERS, MAX_PARTY_PLAYERS)}
+                value={partyPlayers}
+                onChange={setPartyPlayers}
+                maxTags={MAX_PARTY_PLAYERS}
+                clearable
+              />
+            ) : null}
+            {staircaseSelected ? (
+              <Group align='flex-end'>
+                <Select
+                  label={t.quiz.codec}
+                  data={STAIRCASE_LADDERS.map((ladder) => ({ value: ladder.id, label: ladder.label }))}
+                  value={staircaseLadderId}
+                  onChange={setStaircaseLadderId}
+                  allowDeselect={false}
+                  maw={160}
+                />
+                <SegmentedControl
+                  data={STAIRCASE_DIFFICULTIES.map(({ value }) => ({ value, label: t.staircase.difficulties[value] }))}
+                  value={staircaseDifficulty}
+                  onChange={(value) => setStaircaseDifficulty(value as StaircaseDifficulty)}
+                />
+              </Group>
+            ) : (
+              <MultiSelect
+                placeholder={t.quiz.profilesPlaceholder(MIN_ROUND_PROFILES, MAX_ROUND_PROFILES)}
+                data={toProfileSelectData()}
+                value={roundProfileIds}
+                onChange={setRoundProfileIds}
+                maxValues={MAX_ROUND_PROFILES}
+                searchable
+              />
+            )}
+            <Switch
+              label={t.quiz.strictBlind}
+              checked={strictBlind}
+              onChange={setStrictBlind}
+              disabled={session !== null}
+            />
+            {sourceKind === 'playlist' ? (
+              <Select
+                label={t.quiz.profilesPerRound}
+                data={profilesPerRoundOptions}
+                value={profilesPerRound}
+                onChange={setProfilesPerRound}
+                maw={260}
+              />
+            ) : null}
             <Center>
-              <Button onClick={handleConvert} disabled={!coreLoaded || !file}>
-                変換する
-              </Button>
+              {sourceKind === 'playlist' ? (
+                <Button
+                  onClick={handleStartSession}
+                  loading={converting}
+                  disabled={!coreLoaded || playlistFiles.length === 0 || roundProfileIds.length < MIN_ROUND_PROFILES}
+                >
+                  {t.quiz.startSession(playlistFiles.length)}
+                </Button>
+              ) : staircaseSelected ? (
+                <Button onClick={handleStartStaircase} loading={converting} disabled={!coreLoaded || !file}>
+                  {t.quiz.startStaircase}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleConvert}
+                  loading={converting}
+                  disabled={!coreLoaded || !file || roundProfileIds.length < MIN_ROUND_PROFILES}
+                >
+                  {t.quiz.convert}
+                </Button>
+              )}
             </Center>
           </Stack>
         </Paper>
 
-        {feedback ? (
+        <PregeneratedRounds disabled={converting} onPlay={handlePlayPregenerated} />
+
+        {variantProgress.length > 0 ? (
+          <ConversionProgress items={variantProgress} converting={converting} onCancel={cancelConversion} />
+        ) : null}
+
+        {notice ? (
           <Alert
             icon={<IconInfoCircle size={18} />}
-            color={feedback.tone === 'success' ? 'green' : 'red'}
+            color={notice.tone === 'success' ? 'green' : 'red'}
             variant='light'
           >
-            <Text component='pre' m={0} style={{ whiteSpace: 'pre-wrap' }}>
-              {feedback.text}
-            </Text>
+            {notice.text}
+            {notice.detail ? (
+              <Code block mt='xs'>
+                {notice.detail}
+              </Code>
+            ) : null}
           </Alert>
         ) : null}
 
-        {tracks.length > 0 ? (
+        {session ? (
+          <Group justify='space-between'>
+            <Text fw='bold'>
+              {t.quiz.sessionProgress(sessionIndex + 1, session.length, session[sessionIndex]?.file.name ?? '')}
+            </Text>
+            {sessionIndex < session.length - 1 ? (
+              <Button
+                variant='light'
+                rightSection={<IconPlayerTrackNextFilled size={18} />}
+                onClick={handleNextRound}
+                disabled={converting || (tracks.length > 0 && !result)}
+              >
+                {t.quiz.nextRound}
+              </Button>
+            ) : null}
+          </Group>
+        ) : null}
+
+        {tracks.length > 0 && !session && !staircase && !party ? (
+          <Center>
+            <SegmentedControl
+              data={QUIZ_MODES.filter((value) => value !== 'mushra' || isMushraRound(tracks)).map((value) => ({
+                value,
+                label: t.quiz.modes[value]
+              }))}
+              value={mode}
+              onChange={handleModeChange}
+            />
+          </Center>
+        ) : null}
+
+        {tracks.length > 0 && mode === 'abx' ? (
+          <AbxPanel
+            key={tracks[0].id}
+            tracks={tracks}
+            playback={playback}
+            roundInfo={roundInfo}
+            challenge={challenge?.mode === 'abx' ? challenge : null}
+          />
+        ) : null}
+
+        {tracks.length > 0 && mode === 'mushra' ? (
+          <MushraPanel key={tracks[0].id} tracks={tracks} playback={playback} roundInfo={roundInfo} />
+        ) : null}
+
+        {tracks.length > 0 && mode === 'label' && party ? (
+          <PartyPanel
+            party={party}
+            onStartTurn={handleStartPartyTurn}
+            onPlayAgain={() => setParty(createParty(party.players))}
+            onEnd={handleEndParty}
+          />
+        ) : null}
+
+        {tracks.length > 0 && mode === 'label' && !partyWaiting ? (
           <Paper withBorder p='lg'>
             <Stack gap='lg' mb={'xs'}>
               {tracks.map((track, index) => (
                 <AudioTrackPlayer
                   key={track.id}
-                  track={track}
-                  index={index}
+                  label={t.quiz.track(index + 1)}
                   isPlaying={playingTrackId === track.id}
-                  selectedAnswer={selectedAnswers[track.id] ?? null}
-                  onPlay={() => handleTrackPlay(track.id)}
-                  onStop={() => handleTrackStop(track.id)}
-                  onSoundUpdate={handleSoundUpdate}
-                  onAnswerChange={(value) => handleAnswerChange(track.id, value)}
-                />
+                  revealedLabel={result && revealLabels ? getProfileLabel(track.profileId) : undefined}
+                  onToggle={() => toggleTrack(track.id)}
+                >
+                  <Select
+                    placeholder={t.quiz.answerPlaceholder}
+                    data={answerOptions}
+                    value={selectedAnswers[track.id] ?? null}
+                    onChange={(value) => handleAnswerChange(track.id, value)}
+                    maw={200}
+                  />
+                </AudioTrackPlayer>
               ))}
-              <Group justify='center' gap='sm'>
-                <Button variant='light' onClick={() => handleSeek(-5)} disabled={!playingTrackId}>
-                  5秒戻る
-                </Button>
-                <Button variant='light' onClick={() => handleSeek(5)} disabled={!playingTrackId}>
-                  5秒進む
+              <PlaybackControls playback={playback} />
+              <Group justify='center'>
+                <Button onClick={checkAnswers}>{t.quiz.check}</Button>
+                <Button variant='subtle' leftSection={<IconKeyboard size={18} />} onClick={toggleHelp}>
+                  {t.quiz.keyboard}
                 </Button>
               </Group>
-              <Center>
-                <Button onClick={checkAnswers}>解答チェック!</Button>
-              </Center>
+              <ShortcutHelp
+                opened={helpOpened}
+                onClose={closeHelp}
+                trackLabels={tracks.map((_, index) => t.quiz.track(index + 1))}
+                answerLabels={answerItems.map((item) => item.label)}
+                answerDescription={t.quiz.answerDescription}
+                submitLabel={t.quiz.submitLabel}
+              />
             </Stack>
           </Paper>
         ) : null}
+
+        {result && mode === 'label' ? (
+          <QuizResults
+            result={result}
+            tracks={tracks}
+            durationSeconds={playback.duration}
+            revealLabels={revealLabels}
+            onRevealLabelsChange={setRevealLabels}
+          >
+            {roundInfo && !session && !staircase ? (
+              <ChallengeShare
+                challenge={{
+                  mode: 'label',
+                  profileIds: sortProfileIds(tracks.map((track) => track.profileId)),
+                  region: roundInfo.region,
+                  seed: roundInfo.seed,
+                  strictBlind: roundInfo.strictBlind,
+                  score: { correct: result.correct, total: result.total }
+                }}
+              />
+            ) : null}
+          </QuizResults>
+        ) : null}
+
+        {result && mode === 'label' && tracks.length > 0 ? (
+          <ForensicsPanel key={tracks[0].id} tracks={tracks} playback={playback} />
+        ) : null}
+
+        {tracks.length > 0 && roundInfo && mode === 'label' && !party ? (
+          <RoundExport
+            key={tracks[0].id}
+            tracks={tracks}
+            roundInfo={roundInfo}
+            result={result}
+            // 変換後に別の曲を選び直した場合は、その曲の解析結果を載せない
+            sourceInfo={sourceProbe?.status === 'done' && file?.name === roundInfo.fileName ? sourceProbe.info : null}
+            getHeardBuffer={(trackId) => engine.getBuffer(trackId)}
+          />
+        ) : null}
+
+        {staircase ? (
+          <StaircasePanel
+            staircase={staircase}
+            canAdvance={!converting && (tracks.length === 0 || result !== null)}
+            onNext={handleNextStaircaseStep}
+            onEnd={() => setStaircase(null)}
+          />
+        ) : null}
+
+        {session && sessionScores.length > 0 ? (
+          <SessionSummary scores={sessionScores} roundCount={session.length} />
+        ) : null}
       </Stack>
     </Box>
   );
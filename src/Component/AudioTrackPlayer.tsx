@@ -0,0 +1,47 @@
+import { Badge, Button, Group, Stack } from '@mantine/core';
+import { IconPlayerPlayFilled, IconPlayerStopFilled } from '@tabler/icons-react';
+import type { ReactNode } from 'react';
+import { useI18n } from './useI18n';
+
+// 各トラックの再生ボタン。実際の再生は共通のAudioEngineが担い、ここでは切り替えの指示だけを出す
+type AudioTrackPlayerProps = {
+  label: string;
+  isPlaying: boolean;
+  disabled?: boolean;
+  // 採点後に正解を見ながら聞き直す場合に表示する本当の音質
+  revealedLabel?: string;
+  onToggle: () => void;
+  // 再生ボタンの右側に並べる解答用UI
+  children?: ReactNode;
+};
+
+export function AudioTrackPlayer({
+  label,
+  isPlaying,
+  disabled,
+  revealedLabel,
+  onToggle,
+  children
+}: AudioTrackPlayerProps) {
+  const { t } = useI18n();
+  return (
+    <Stack gap='xs'>
+      <Group>
+        <Button
+          leftSection={isPlaying ? <IconPlayerStopFilled size={18} /> : <IconPlayerPlayFilled size={18} />}
+          variant={isPlaying ? 'filled' : 'light'}
+          onClick={onToggle}
+          disabled={disabled}
+        >
+          {isPlaying ? t.player.stop(label) : t.player.play(label)}
+        </Button>
+        {revealedLabel ? (
+          <Badge variant='outline' size='lg'>
+            {revealedLabel}
+          </Badge>
+        ) : null}
+        {children}
+      </Group>
+    </Stack>
+  );
+}
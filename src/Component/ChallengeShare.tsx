@@ -0,0 +1,24 @@
+import { Group, Text } from '@mantine/core';
+import { ButtonCopy } from '../ButtonCopy';
+import { type Challenge, buildChallengeUrl } from '../lib/challenge';
+import { useI18n } from './useI18n';
+
+type ChallengeShareProps = {
+  challenge: Challenge;
+};
+
+// 採点後に、同じ条件のクイズを出せるリンクを成績付きでコピーする
+export function ChallengeShare({ challenge }: ChallengeShareProps) {
+  const { t } = useI18n();
+  const url = buildChallengeUrl(challenge);
+  const message = challenge.score ? t.quiz.challenge.message(challenge.score.correct, challenge.score.total, url) : url;
+
+  return (
+    <Group gap='sm' justify='space-between'>
+      <Text size='sm' c='dimmed'>
+        {t.quiz.challenge.shareHint}
+      </Text>
+      <ButtonCopy content={message} label={t.quiz.challenge.copy} />
+    </Group>
+  );
+}
@@ -0,0 +1,57 @@
+import { Button, Group, Paper, Progress, Stack, Text } from '@mantine/core';
+import { IconPlayerStopFilled } from '@tabler/icons-react';
+import type { VariantProgress } from '../lib/conversionService';
+import { getProfileLabel } from '../lib/profiles';
+import { useI18n } from './useI18n';
+
+const STATUS_COLORS: Record<VariantProgress['status'], string> = {
+  pending: 'gray',
+  running: 'blue',
+  done: 'green',
+  error: 'red'
+};
+
+type ConversionProgressProps = {
+  items: VariantProgress[];
+  converting: boolean;
+  onCancel: () => void;
+};
+
+// バリアントごとの変換進捗と中止ボタン
+export function ConversionProgress({ items, converting, onCancel }: ConversionProgressProps) {
+  const { t } = useI18n();
+  return (
+    <Paper withBorder p='lg'>
+      <Stack gap='xs'>
+        {items.map((item) => {
+          // 進み具合が分からない間は、バーを満たした縞模様で処理中であることだけを示す
+          const unknown = item.indeterminate && item.status === 'running';
+          return (
+            <Group key={item.profileId} gap='sm' wrap='nowrap'>
+              <Text size='sm' w={140}>
+                {getProfileLabel(item.profileId)}
+              </Text>
+              <Progress
+                flex={1}
+                value={unknown ? 100 : item.ratio * 100}
+                color={STATUS_COLORS[item.status]}
+                striped={unknown}
+                animated={item.status === 'running'}
+              />
+              <Text size='sm' w={48} ta='right'>
+                {unknown ? '…' : t.conversion.progress(item.ratio)}
+              </Text>
+            </Group>
+          );
+        })}
+        {converting ? (
+          <Group justify='flex-end'>
+            <Button variant='light' color='red' leftSection={<IconPlayerStopFilled size={18} />} onClick={onCancel}>
+              {t.conversion.cancel}
+            </Button>
+          </Group>
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,196 @@
+import { Badge, Box, Button, Group, Paper, SimpleGrid, Stack, Text } from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconChartHistogram } from '@tabler/icons-react';
+import { useEffect, useRef, useState } from 'react';
+import { mixToMono } from '../lib/alignment';
+import {
+  SPECTROGRAM_FLOOR_DB,
+  type Spectrogram,
+  computeDifference,
+  computeSpectrogram,
+  estimateCutoffFrequency,
+  measureDifferenceDb
+} from '../lib/forensics';
+import { getProfileLabel, pickReferenceProfileId } from '../lib/profiles';
+import type { QuizTrack } from '../lib/quiz';
+import { AudioTrackPlayer } from './AudioTrackPlayer';
+import type { AudioPlayback } from './useAudioEngine';
+import { useI18n } from './useI18n';
+
+const SPECTROGRAM_HEIGHT = 140;
+// 縦方向の表示行数。複数のFFTビンを1行にまとめ、最大値で代表させる
+const SPECTROGRAM_ROWS = 256;
+
+type TrackAnalysis = {
+  track: QuizTrack;
+  // 出題時の番号(曲1, 曲2...)
+  index: number;
+  spectrogram: Spectrogram;
+  cutoffHz: number | null;
+  // 基準トラックとの差分を再生するためのバッファID。基準トラック自身はnull
+  differenceId: string | null;
+  differenceDb: number | null;
+};
+
+// 黒→赤→黄→白のヒートマップ
+function levelToColor(db: number): [number, number, number] {
+  const t = Math.min(Math.max((db - SPECTROGRAM_FLOOR_DB) / -SPECTROGRAM_FLOOR_DB, 0), 1) * 3;
+  return [Math.min(t, 1) * 255, Math.min(Math.max(t - 1, 0), 1) * 255, Math.min(Math.max(t - 2, 0), 1) * 255];
+}
+
+function SpectrogramCanvas({ spectrogram, cutoffHz }: { spectrogram: Spectrogram; cutoffHz: number | null }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const nyquist = spectrogram.sampleRate / 2;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) {
+      return;
+    }
+    const { columns, bins, levels } = spectrogram;
+    canvas.width = columns;
+    canvas.height = SPECTROGRAM_ROWS;
+    const image = context.createImageData(columns, SPECTROGRAM_ROWS);
+    const binsPerRow = bins / SPECTROGRAM_ROWS;
+    for (let column = 0; column < columns; column += 1) {
+      for (let row = 0; row < SPECTROGRAM_ROWS; row += 1) {
+        let level = SPECTROGRAM_FLOOR_DB;
+        const firstBin = Math.floor(row * binsPerRow);
+        for (let bin = firstBin; bin < Math.floor((row + 1) * binsPerRow); bin += 1) {
+          level = Math.max(level, levels[column * bins + bin]);
+        }
+        // 高い周波数を上に描く
+        const offset = ((SPECTROGRAM_ROWS - 1 - row) * columns + column) * 4;
+        const [r, g, b] = levelToColor(level);
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [spectrogram]);
+
+  return (
+    <Box pos='relative' h={SPECTROGRAM_HEIGHT}>
+      <canvas ref={canvasRef} style={{ width: '100%', height: SPECTROGRAM_HEIGHT, display: 'block' }} />
+      {cutoffHz !== null ? (
+        <Box
+          pos='absolute'
+          left={0}
+          right={0}
+          top={`${(1 - cutoffHz / nyquist) * 100}%`}
+          style={{ borderTop: '2px dashed var(--mantine-color-cyan-4)' }}
+        />
+      ) : null}
+    </Box>
+  );
+}
+
+type ForensicsPanelProps = {
+  tracks: QuizTrack[];
+  playback: AudioPlayback;
+};
+
+// 採点後にだけ表示する解析パネル。各バリアントのスペクトログラムと、基準トラックとの差分信号を確認できる
+export function ForensicsPanel({ tracks, playback }: ForensicsPanelProps) {
+  const { t } = useI18n();
+  const { engine, playingTrackId, toggleTrack } = playback;
+  const [opened, { toggle }] = useDisclosure(false);
+  const [analyses, setAnalyses] = useState<TrackAnalysis[]>([]);
+
+  // 解析は開いた時に一度だけ行う。差分信号は再生エンジンにバッファとして登録し、通常のトラックと同じ操作で再生する
+  useEffect(() => {
+    if (!opened || analyses.length > 0) {
+      return;
+    }
+    const referenceProfileId = pickReferenceProfileId(tracks.map((track) => track.profileId));
+    const referenceTrack = tracks.find((track) => track.profileId === referenceProfileId);
+    const referenceBuffer = referenceTrack ? engine.getBuffer(referenceTrack.id) : undefined;
+    const toChannels = (buffer: AudioBuffer) =>
+      Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+    const referenceChannels = referenceBuffer ? toChannels(referenceBuffer) : null;
+    const next: TrackAnalysis[] = [];
+    for (const [index, track] of tracks.entries()) {
+      const buffer = engine.getBuffer(track.id);
+      if (!buffer) {
+        continue;
+      }
+      const channels = toChannels(buffer);
+      const spectrogram = computeSpectrogram(mixToMono(channels), buffer.sampleRate);
+      let differenceId: string | null = null;
+      let differenceDb: number | null = null;
+      if (referenceChannels && track.id !== referenceTrack?.id) {
+        const difference = computeDifference(referenceChannels, channels);
+        differenceId = `null-${track.id}`;
+        differenceDb = measureDifferenceDb(referenceChannels, difference);
+        engine.setBuffer(differenceId, engine.createBuffer(difference, buffer.sampleRate));
+      }
+      next.push({
+        track,
+        index,
+        spectrogram,
+        cutoffHz: estimateCutoffFrequency(spectrogram),
+        differenceId,
+        differenceDb
+      });
+    }
+    setAnalyses(next);
+  }, [opened, analyses.length, tracks, engine]);
+
+  const referenceLabel = getProfileLabel(pickReferenceProfileId(tracks.map((track) => track.profileId)) ?? '');
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack>
+        <Group justify='space-between'>
+          <Text fw='bold'>{t.forensics.title}</Text>
+          <Button variant='light' leftSection={<IconChartHistogram size={18} />} onClick={toggle}>
+            {opened ? t.forensics.hide : t.forensics.show}
+          </Button>
+        </Group>
+        {opened ? (
+          <>
+            <Text size='sm' c='dimmed'>
+              {t.forensics.description(referenceLabel)}
+            </Text>
+            <SimpleGrid cols={{ base: 1, sm: 2 }}>
+              {analyses.map(({ track, index, spectrogram, cutoffHz, differenceId, differenceDb }) => (
+                <Stack key={track.id} gap='xs'>
+                  <Group gap='xs'>
+                    <Text size='sm' fw='bold'>
+                      {t.quiz.track(index + 1)}: {getProfileLabel(track.profileId)}
+                    </Text>
+                    <Badge variant='light' color={cutoffHz !== null ? 'cyan' : 'gray'}>
+                      {cutoffHz !== null ? t.forensics.cutoff(cutoffHz / 1000) : t.forensics.noCutoff}
+                    </Badge>
+                  </Group>
+                  <SpectrogramCanvas spectrogram={spectrogram} cutoffHz={cutoffHz} />
+                  <Text size='xs' c='dimmed'>
+                    {t.forensics.axis(spectrogram.sampleRate / 2000)}
+                  </Text>
+                  {differenceId ? (
+                    <AudioTrackPlayer
+                      label={t.forensics.difference}
+                      isPlaying={playingTrackId === differenceId}
+                      onToggle={() => toggleTrack(differenceId)}
+                    >
+                      <Text size='sm' c='dimmed'>
+                        {differenceDb !== null ? t.forensics.differenceLevel(differenceDb) : t.forensics.identical}
+                      </Text>
+                    </AudioTrackPlayer>
+                  ) : (
+                    <Text size='sm' c='dimmed'>
+                      {t.forensics.reference}
+                    </Text>
+                  )}
+                </Stack>
+              ))}
+            </SimpleGrid>
+          </>
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
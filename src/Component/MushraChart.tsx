@@ -0,0 +1,46 @@
+import { Box, Group, Stack, Text } from '@mantine/core';
+import type { MushraProfileSummary } from '../lib/mushra';
+import { getProfileLabel } from '../lib/profiles';
+import { useI18n } from './useI18n';
+
+type MushraChartProps = {
+  summaries: MushraProfileSummary[];
+};
+
+const BAR_HEIGHT = 14;
+
+// プロファイルごとの平均点を棒で、95%信頼区間をひげで表す。横軸は0〜100点
+export function MushraChart({ summaries }: MushraChartProps) {
+  const { t } = useI18n();
+  return (
+    <Stack gap='xs'>
+      {summaries.map((summary) => {
+        const low = Math.max(summary.low, 0);
+        const high = Math.min(summary.high, 100);
+        return (
+          <Group key={summary.profileId} gap='sm' wrap='nowrap'>
+            <Text size='sm' w={140} truncate>
+              {getProfileLabel(summary.profileId)}
+            </Text>
+            <Box pos='relative' h={BAR_HEIGHT} style={{ flex: 1 }} bg='var(--mantine-color-default-border)'>
+              <Box pos='absolute' top={0} left={0} h={BAR_HEIGHT} w={`${summary.mean}%`} bg='blue.5' />
+              {high > low ? (
+                <Box
+                  pos='absolute'
+                  top={BAR_HEIGHT / 2 - 1}
+                  left={`${low}%`}
+                  w={`${high - low}%`}
+                  h={2}
+                  bg='var(--mantine-color-text)'
+                />
+              ) : null}
+            </Box>
+            <Text size='sm' w={150} ta='right'>
+              {t.mushra.summary(summary.mean, summary.count > 1 ? [low, high] : null, summary.count)}
+            </Text>
+          </Group>
+        );
+      })}
+    </Stack>
+  );
+}
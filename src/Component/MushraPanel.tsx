@@ -0,0 +1,241 @@
+import { Alert, Badge, Button, Group, Paper, Slider, Stack, Table, Text } from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconInfoCircle, IconKeyboard } from '@tabler/icons-react';
+import { useState } from 'react';
+import { collectReliableRatings } from '../lib/historyStats';
+import { type RoundRating, createRoundId, listRounds, saveRound } from '../lib/historyStore';
+import type { Messages } from '../lib/i18n';
+import {
+  HIDDEN_REFERENCE_MIN_SCORE,
+  MUSHRA_SCALE,
+  type MushraScreening,
+  type MushraScreeningReason,
+  screenMushraRatings,
+  summarizeMushraRatings
+} from '../lib/mushra';
+import { ANCHOR_PROFILE_ID, ORIGINAL_PROFILE_ID, getProfileLabel, sortProfileIds } from '../lib/profiles';
+import type { QuizTrack, RoundInfo } from '../lib/quiz';
+import { AudioTrackPlayer } from './AudioTrackPlayer';
+import { MushraChart } from './MushraChart';
+import { PlaybackControls } from './PlaybackControls';
+import { ShortcutHelp } from './ShortcutHelp';
+import type { AudioPlayback } from './useAudioEngine';
+import { useI18n } from './useI18n';
+import { useListeningHotkeys } from './useListeningHotkeys';
+
+// 公開リファレンスはオリジナルと同じバッファを別IDで再生し、隠しリファレンスと再生状態で見分けられないようにする
+const OPEN_REFERENCE_ID = 'mushra-reference';
+
+function describeScreeningReason(t: Messages, reason: MushraScreeningReason): string {
+  switch (reason.code) {
+    case 'missingRatings':
+      return t.mushra.reasons.missingRatings;
+    case 'referenceTooLow':
+      return t.mushra.reasons.referenceTooLow(HIDDEN_REFERENCE_MIN_SCORE, reason.score);
+    case 'anchorAboveReference':
+      return t.mushra.reasons.anchorAboveReference(reason.score);
+  }
+}
+
+type MushraPanelProps = {
+  tracks: QuizTrack[];
+  playback: AudioPlayback;
+  roundInfo: RoundInfo | null;
+};
+
+// リファレンスと聞き比べながら、隠しリファレンスとアンカーを含む全曲に0〜100点を付けるMUSHRA形式のパネル
+export function MushraPanel({ tracks, playback, roundInfo }: MushraPanelProps) {
+  const { t } = useI18n();
+  const { playingTrackId, assignTrack, toggleTrack, playTrack, stop } = playback;
+  // 未評価の曲はキーを持たない。スライダーに一度も触れずに採点されるのを防ぐため
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [screening, setScreening] = useState<MushraScreening | null>(null);
+  // 今回の評価を含む、事後スクリーニングを通った全ラウンドの評価
+  const [history, setHistory] = useState<RoundRating[] | null>(null);
+  // 未評価の曲が残ったまま採点しようとした
+  const [incomplete, setIncomplete] = useState(false);
+  const [helpOpened, { toggle: toggleHelp, close: closeHelp }] = useDisclosure(false);
+
+  const reference = tracks.find((track) => track.profileId === ORIGINAL_PROFILE_ID);
+  const players = [
+    ...(reference ? [{ label: t.mushra.reference, id: OPEN_REFERENCE_ID, sourceId: reference.id }] : []),
+    ...tracks.map((track, index) => ({ label: t.quiz.track(index + 1), id: track.id, sourceId: track.id }))
+  ];
+  const graded = screening !== null;
+
+  useListeningHotkeys({
+    enabled: tracks.length > 0,
+    playback,
+    trackIds: players.map((player) => player.id),
+    onSelectTrack: (index) => {
+      const { id, sourceId } = players[index];
+      assignReference(id, sourceId);
+      playTrack(id);
+    },
+    answers: [],
+    onToggleHelp: toggleHelp
+  });
+
+  function assignReference(id: string, sourceId: string) {
+    if (id !== sourceId) {
+      assignTrack(id, sourceId);
+    }
+  }
+
+  function handleToggle(id: string, sourceId: string) {
+    assignReference(id, sourceId);
+    toggleTrack(id);
+  }
+
+  // 正誤の代わりに評価点で採点する。全曲を評価し終えるまで採点しない
+  function handleGrade() {
+    if (tracks.some((track) => scores[track.id] === undefined)) {
+      setIncomplete(true);
+      return;
+    }
+    setIncomplete(false);
+    stop();
+    const ratings = tracks.map((track) => ({ profileId: track.profileId, score: scores[track.id] }));
+    const result = screenMushraRatings(ratings);
+    setScreening(result);
+    void saveResult(ratings, result);
+  }
+
+  async function saveResult(ratings: RoundRating[], result: MushraScreening) {
+    try {
+      if (roundInfo) {
+        await saveRound({
+          id: createRoundId(),
+          timestamp: Date.now(),
+          fileName: roundInfo.fileName,
+          mode: 'mushra',
+          profileIds: sortProfileIds(tracks.map((track) => track.profileId)),
+          region: roundInfo.region,
+          answers: [],
+          listeningMs: Date.now() - roundInfo.startedAt,
+          ratings,
+          reliable: result.reliable
+        });
+      }
+      setHistory(collectReliableRatings(await listRounds()));
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack gap='lg'>
+        <Text size='sm' c='dimmed'>
+          {t.mushra.description}
+        </Text>
+        {reference ? (
+          <AudioTrackPlayer
+            label={t.mushra.reference}
+            isPlaying={playingTrackId === OPEN_REFERENCE_ID}
+            onToggle={() => handleToggle(OPEN_REFERENCE_ID, reference.id)}
+          />
+        ) : null}
+        {tracks.map((track, index) => (
+          <Stack key={track.id} gap='xs'>
+            <AudioTrackPlayer
+              label={t.quiz.track(index + 1)}
+              isPlaying={playingTrackId === track.id}
+              onToggle={() => handleToggle(track.id, track.id)}
+            />
+            <Group gap='md' wrap='nowrap' px='sm' pb='lg'>
+              <Slider
+                style={{ flex: 1 }}
+                min={0}
+                max={100}
+                marks={MUSHRA_SCALE.map(({ value, grade }) => ({ value, label: t.mushra.grades[grade] }))}
+                value={scores[track.id] ?? 0}
+                color={scores[track.id] === undefined ? 'gray' : undefined}
+                onChange={(value) => setScores((current) => ({ ...current, [track.id]: value }))}
+                disabled={graded}
+              />
+              <Text size='sm' w={56} ta='right'>
+                {scores[track.id] ?? t.mushra.unrated}
+              </Text>
+            </Group>
+          </Stack>
+        ))}
+        <PlaybackControls playback={playback} />
+        {incomplete ? (
+          <Alert icon={<IconInfoCircle size={18} />} color='red' variant='light'>
+            {t.mushra.rateAll}
+          </Alert>
+        ) : null}
+        {!graded ? (
+          <Group justify='center'>
+            <Button onClick={handleGrade}>{t.mushra.grade}</Button>
+            <Button variant='subtle' leftSection={<IconKeyboard size={18} />} onClick={toggleHelp}>
+              {t.quiz.keyboard}
+            </Button>
+          </Group>
+        ) : null}
+        <ShortcutHelp
+          opened={helpOpened}
+          onClose={closeHelp}
+          trackLabels={players.map((player) => player.label)}
+          answerLabels={[]}
+          answerDescription=''
+        />
+        {screening ? (
+          <>
+            <Alert icon={<IconInfoCircle size={18} />} color={screening.reliable ? 'green' : 'yellow'} variant='light'>
+              {screening.reliable ? (
+                <Text size='sm'>{t.mushra.reliable(HIDDEN_REFERENCE_MIN_SCORE)}</Text>
+              ) : (
+                <>
+                  <Text size='sm'>{t.mushra.excluded}</Text>
+                  {screening.reasons.map((reason) => (
+                    <Text key={reason.code} size='sm'>
+                      {describeScreeningReason(t, reason)}
+                    </Text>
+                  ))}
+                </>
+              )}
+            </Alert>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t.mushra.columns.track}</Table.Th>
+                  <Table.Th>{t.mushra.columns.profile}</Table.Th>
+                  <Table.Th>{t.mushra.columns.score}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {tracks.map((track, index) => (
+                  <Table.Tr key={track.id}>
+                    <Table.Td>{t.quiz.track(index + 1)}</Table.Td>
+                    <Table.Td>
+                      <Group gap='xs'>
+                        {getProfileLabel(track.profileId)}
+                        {track.profileId === ORIGINAL_PROFILE_ID ? (
+                          <Badge variant='light'>{t.mushra.hiddenReference}</Badge>
+                        ) : null}
+                        {track.profileId === ANCHOR_PROFILE_ID ? (
+                          <Badge variant='light' color='gray'>
+                            {t.mushra.anchor}
+                          </Badge>
+                        ) : null}
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>{scores[track.id]}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+            {history && history.length > 0 ? (
+              <Stack gap='xs'>
+                <Text fw='bold'>{t.mushra.history}</Text>
+                <MushraChart summaries={summarizeMushraRatings(history)} />
+              </Stack>
+            ) : null}
+          </>
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,83 @@
+import { Badge, Stack, Table, Text } from '@mantine/core';
+import { summarizeByProfile } from '../lib/historyStats';
+import { type PartyTurn, buildLeaderboard } from '../lib/party';
+import { getProfileLabel } from '../lib/profiles';
+import { formatSeconds } from '../lib/quiz';
+import { useI18n } from './useI18n';
+
+type PartyLeaderboardProps = {
+  turns: PartyTurn[];
+};
+
+const RANK_COLORS: Record<number, string> = { 1: 'yellow', 2: 'gray', 3: 'orange' };
+
+// 全員の正解数の順位と、音質ごとにだれが聞き分けられたかを並べる
+export function PartyLeaderboard({ turns }: PartyLeaderboardProps) {
+  const { t } = useI18n();
+  const entries = buildLeaderboard(turns);
+  // 全員が同じラウンドに答えているので、全体の集計に出てくる音質がそのまま行になる
+  const overall = summarizeByProfile(turns);
+
+  return (
+    <Stack>
+      <Table striped>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>{t.party.columns.rank}</Table.Th>
+            <Table.Th>{t.party.columns.player}</Table.Th>
+            <Table.Th>{t.party.columns.score}</Table.Th>
+            <Table.Th>{t.party.columns.listening}</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {entries.map((entry) => (
+            <Table.Tr key={entry.player}>
+              <Table.Td>
+                <Badge color={RANK_COLORS[entry.rank] ?? 'blue'} variant='light'>
+                  {entry.rank}
+                </Badge>
+              </Table.Td>
+              <Table.Td>{entry.player}</Table.Td>
+              <Table.Td>
+                {entry.correct} / {entry.total}
+              </Table.Td>
+              <Table.Td>{formatSeconds(entry.listeningMs / 1000)}</Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      <Text fw='bold'>{t.party.byProfile}</Text>
+      <Table.ScrollContainer minWidth={120 * (entries.length + 2)}>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t.party.columns.profile}</Table.Th>
+              {entries.map((entry) => (
+                <Table.Th key={entry.player}>{entry.player}</Table.Th>
+              ))}
+              <Table.Th>{t.party.columns.everyone}</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {overall.map((profile) => (
+              <Table.Tr key={profile.profileId}>
+                <Table.Td>{getProfileLabel(profile.profileId)}</Table.Td>
+                {entries.map((entry) => {
+                  const accuracy = entry.byProfile.find((item) => item.profileId === profile.profileId);
+                  return (
+                    <Table.Td key={entry.player}>
+                      {accuracy ? `${accuracy.correct} / ${accuracy.answers}` : '-'}
+                    </Table.Td>
+                  );
+                })}
+                <Table.Td>
+                  {profile.correct} / {profile.answers}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+    </Stack>
+  );
+}
@@ -0,0 +1,74 @@
+import { Alert, Button, Group, Paper, Stack, Text } from '@mantine/core';
+import { IconTrophy, IconUsers } from '@tabler/icons-react';
+import { type PartyState, isPartyFinished } from '../lib/party';
+import { PartyLeaderboard } from './PartyLeaderboard';
+import { useI18n } from './useI18n';
+
+type PartyPanelProps = {
+  party: PartyState;
+  onStartTurn: () => void;
+  onPlayAgain: () => void;
+  onEnd: () => void;
+};
+
+// パスアンドプレイの進行。受け渡し中は前の人の解答を隠して次のプレイヤーを案内し、全員が終わったら順位を出す
+export function PartyPanel({ party, onStartTurn, onPlayAgain, onEnd }: PartyPanelProps) {
+  const { t } = useI18n();
+  const player = party.players[party.turn];
+  const previous = party.turns[party.turns.length - 1];
+
+  if (isPartyFinished(party)) {
+    return (
+      <Paper withBorder p='lg'>
+        <Stack>
+          <Alert icon={<IconTrophy size={18} />} color='green' variant='light'>
+            {t.party.finished(party.players.length)}
+          </Alert>
+          <PartyLeaderboard turns={party.turns} />
+          <Group justify='center'>
+            <Button onClick={onPlayAgain}>{t.party.playAgain}</Button>
+            <Button variant='default' onClick={onEnd}>
+              {t.party.end}
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  if (!party.handover) {
+    return (
+      <Group justify='space-between'>
+        <Text fw='bold'>{t.party.currentTurn(player)}</Text>
+        <Text size='sm' c='dimmed'>
+          {t.party.turnProgress(party.turn + 1, party.players.length)}
+        </Text>
+      </Group>
+    );
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack align='center'>
+        <IconUsers size={32} />
+        <Text fw='bold' ta='center'>
+          {previous ? t.party.nextTurn(previous.player, player) : t.party.firstTurn(player)}
+        </Text>
+        <Text size='sm' c='dimmed' ta='center'>
+          {t.party.handoverHint}
+        </Text>
+        <Text size='sm' c='dimmed'>
+          {t.party.turnProgress(party.turn + 1, party.players.length)}
+        </Text>
+        <Group justify='center'>
+          <Button leftSection={<IconUsers size={18} />} onClick={onStartTurn}>
+            {t.party.startTurn(player)}
+          </Button>
+          <Button variant='default' onClick={onEnd}>
+            {t.party.end}
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,59 @@
+import { Button, Group, Slider, Stack, Switch, Text } from '@mantine/core';
+import { IconPlayerPauseFilled } from '@tabler/icons-react';
+import { formatSeconds } from '../lib/quiz';
+import type { AudioPlayback } from './useAudioEngine';
+import { useI18n } from './useI18n';
+
+const SEEK_SECONDS = 5;
+
+type PlaybackControlsProps = {
+  playback: AudioPlayback;
+};
+
+// 全トラック共通の再生位置を操作するコントロール。どの曲に切り替えてもこの位置から再生される
+export function PlaybackControls({ playback }: PlaybackControlsProps) {
+  const { t } = useI18n();
+  const { position, duration, isPlaying, crossfade, loop, seekTo, seekBy, pause, setCrossfade, setLoop } = playback;
+
+  return (
+    <Stack gap='xs'>
+      <Group gap='sm' wrap='nowrap'>
+        <Text size='sm' ff='monospace'>
+          {formatSeconds(position)}
+        </Text>
+        <Slider
+          flex={1}
+          min={0}
+          max={Math.max(duration, 0.1)}
+          step={0.1}
+          value={Math.min(position, duration)}
+          onChange={seekTo}
+          label={formatSeconds}
+          disabled={duration === 0}
+        />
+        <Text size='sm' ff='monospace'>
+          {formatSeconds(duration)}
+        </Text>
+      </Group>
+      <Group justify='center' gap='sm'>
+        <Button variant='light' onClick={() => seekBy(-SEEK_SECONDS)} disabled={duration === 0}>
+          {t.playback.back(SEEK_SECONDS)}
+        </Button>
+        <Button variant='light' leftSection={<IconPlayerPauseFilled size={18} />} onClick={pause} disabled={!isPlaying}>
+          {t.playback.pause}
+        </Button>
+        <Button variant='light' onClick={() => seekBy(SEEK_SECONDS)} disabled={duration === 0}>
+          {t.playback.forward(SEEK_SECONDS)}
+        </Button>
+      </Group>
+      <Group justify='center'>
+        <Switch label={t.playback.loop} checked={loop} onChange={(event) => setLoop(event.currentTarget.checked)} />
+        <Switch
+          label={t.playback.crossfade}
+          checked={crossfade}
+          onChange={(event) => setCrossfade(event.currentTarget.checked)}
+        />
+      </Group>
+    </Stack>
+  );
+}
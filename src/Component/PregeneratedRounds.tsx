@@ -0,0 +1,172 @@
+import { Alert, Button, FileButton, Group, Paper, PasswordInput, Select, Stack, Text } from '@mantine/core';
+import { useInputState } from '@mantine/hooks';
+import { IconFolder, IconInfoCircle, IconPlayerPlayFilled } from '@tabler/icons-react';
+import { useState } from 'react';
+import type { ConvertedVariant } from '../lib/conversionService';
+import type { Messages } from '../lib/i18n';
+import { formatSeconds } from '../lib/quiz';
+import {
+  type ManifestRound,
+  ROUND_MANIFEST_FILE_NAME,
+  type RoundManifest,
+  RoundManifestError,
+  openManifestRound,
+  parseRoundManifest
+} from '../lib/roundManifest';
+import { FOLDER_INPUT_PROPS } from './folderInputProps';
+import { useI18n } from './useI18n';
+
+type PregeneratedRoundsProps = {
+  disabled: boolean;
+  onPlay: (round: ManifestRound, variants: ConvertedVariant[]) => void;
+};
+
+type LoadedFolder = {
+  manifest: RoundManifest;
+  // manifest.jsonのあるフォルダからの相対パスで引けるようにしたファイル
+  files: Map<string, File>;
+};
+
+// マニフェストの置かれたフォルダを基準に、選ばれたフォルダ内のファイルを相対パスで引けるようにする
+function indexFolder(files: File[]): { manifestFile: File; files: Map<string, File> } | null {
+  const pathOf = (file: File) => file.webkitRelativePath || file.name;
+  const manifestFile = files
+    .filter((file) => file.name === ROUND_MANIFEST_FILE_NAME)
+    .sort((a, b) => pathOf(a).length - pathOf(b).length)[0];
+  if (!manifestFile) {
+    return null;
+  }
+  const base = pathOf(manifestFile).slice(0, -ROUND_MANIFEST_FILE_NAME.length);
+  const index = new Map<string, File>();
+  for (const file of files) {
+    const filePath = pathOf(file);
+    if (filePath.startsWith(base)) {
+      index.set(filePath.slice(base.length), file);
+    }
+  }
+  return { manifestFile, files: index };
+}
+
+function describeManifestError(t: Messages, error: RoundManifestError): string {
+  switch (error.code) {
+    case 'invalidManifest':
+      return t.pregenerated.errors.invalidManifest(error.file ?? ROUND_MANIFEST_FILE_NAME);
+    case 'wrongPassphrase':
+      return t.pregenerated.errors.wrongPassphrase;
+    case 'missingFile':
+      return t.pregenerated.errors.missingFile(error.file ?? '');
+  }
+}
+
+// CLIで事前に作ったラウンドのフォルダを読み込み、ブラウザで変換せずに出題する
+export function PregeneratedRounds({ disabled, onPlay }: PregeneratedRoundsProps) {
+  const { t } = useI18n();
+  const [folder, setFolder] = useState<LoadedFolder | null>(null);
+  const [roundId, setRoundId] = useInputState<string | null>(null);
+  const [passphrase, setPassphrase] = useInputState('');
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFolderChange(files: File[]) {
+    setError(null);
+    const indexed = indexFolder(files);
+    if (!indexed) {
+      setFolder(null);
+      setError(t.pregenerated.errors.noManifest(ROUND_MANIFEST_FILE_NAME));
+      return;
+    }
+    try {
+      const manifest = parseRoundManifest(JSON.parse(await indexed.manifestFile.text()));
+      setFolder({ manifest, files: indexed.files });
+      setRoundId(manifest.rounds[0]?.id ?? null);
+    } catch (error) {
+      setFolder(null);
+      setError(
+        error instanceof RoundManifestError
+          ? describeManifestError(t, error)
+          : t.pregenerated.errors.unreadableManifest(ROUND_MANIFEST_FILE_NAME)
+      );
+    }
+  }
+
+  async function handlePlay() {
+    const rounds = folder?.manifest.rounds ?? [];
+    const index = rounds.findIndex((round) => round.id === roundId);
+    if (!folder || index < 0) {
+      return;
+    }
+    setOpening(true);
+    setError(null);
+    try {
+      const variants = await openManifestRound(rounds[index], passphrase, (path) => folder.files.get(path));
+      onPlay(rounds[index], variants);
+      // 続けて遊べるよう、次のラウンドを選んでおく
+      setRoundId(rounds[index + 1]?.id ?? rounds[index].id);
+    } catch (error) {
+      console.error(error);
+      setError(
+        error instanceof RoundManifestError ? describeManifestError(t, error) : t.pregenerated.errors.openFailed
+      );
+    } finally {
+      setOpening(false);
+    }
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack gap='xs'>
+        <Text fw='bold'>{t.pregenerated.title}</Text>
+        <Text size='sm' c='dimmed'>
+          {t.pregenerated.description}
+        </Text>
+        <Group gap='xs' align='flex-end'>
+          <FileButton multiple onChange={handleFolderChange} inputProps={FOLDER_INPUT_PROPS}>
+            {(props) => (
+              <Button variant='light' leftSection={<IconFolder size={18} />} {...props}>
+                {t.pregenerated.selectFolder}
+              </Button>
+            )}
+          </FileButton>
+          {folder ? (
+            <>
+              <Select
+                flex={1}
+                data={folder.manifest.rounds.map((round) => ({
+                  value: round.id,
+                  label: t.pregenerated.round(
+                    round.id,
+                    round.fileName,
+                    formatSeconds(round.region.start),
+                    formatSeconds(round.region.start + round.region.duration)
+                  )
+                }))}
+                value={roundId}
+                onChange={setRoundId}
+                allowDeselect={false}
+              />
+              <PasswordInput
+                placeholder={t.pregenerated.passphrase}
+                value={passphrase}
+                onChange={setPassphrase}
+                w={180}
+              />
+              <Button
+                leftSection={<IconPlayerPlayFilled size={18} />}
+                onClick={handlePlay}
+                loading={opening}
+                disabled={disabled || !roundId || !passphrase}
+              >
+                {t.pregenerated.play}
+              </Button>
+            </>
+          ) : null}
+        </Group>
+        {error ? (
+          <Alert icon={<IconInfoCircle size={18} />} color='red' variant='light'>
+            {error}
+          </Alert>
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
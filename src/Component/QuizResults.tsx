@@ -0,0 +1,102 @@
+import { Alert, Badge, Paper, Stack, Switch, Table, Text } from '@mantine/core';
+import { IconInfoCircle } from '@tabler/icons-react';
+import type { ReactNode } from 'react';
+import { getProfileLabel } from '../lib/profiles';
+import type { QuizResult, QuizTrack } from '../lib/quiz';
+import { permutationPValue } from '../lib/stats';
+import { useI18n } from './useI18n';
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+type QuizResultsProps = {
+  result: QuizResult;
+  tracks: QuizTrack[];
+  // 再生区間の長さ。ファイルサイズから実効ビットレートを求めるのに使う
+  durationSeconds: number;
+  revealLabels: boolean;
+  onRevealLabelsChange: (reveal: boolean) => void;
+  // 結果の下に並べる共有ボタンなど
+  children?: ReactNode;
+};
+
+// 音質当ての採点結果を表形式で表示するコンポーネント
+export function QuizResults({
+  result,
+  tracks,
+  durationSeconds,
+  revealLabels,
+  onRevealLabelsChange,
+  children
+}: QuizResultsProps) {
+  const { t } = useI18n();
+  const perfect = result.correct === result.total;
+  // 各音質は1回ずつ使われるので曲ごとの正誤は独立ではない。並べ替えの数から確率を求める
+  const pValue = permutationPValue(
+    result.rows.map((row) => row.truth),
+    result.rows.map((row) => row.guess)
+  );
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack>
+        <Alert icon={<IconInfoCircle size={18} />} color={perfect ? 'green' : 'yellow'} variant='light'>
+          {t.results.score(result.correct, result.total, pValue)}
+        </Alert>
+        <Table.ScrollContainer minWidth={640}>
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>{t.results.columns.track}</Table.Th>
+                <Table.Th>{t.results.columns.truth}</Table.Th>
+                <Table.Th>{t.results.columns.guess}</Table.Th>
+                <Table.Th>{t.results.columns.verdict}</Table.Th>
+                <Table.Th>{t.results.columns.fileSize}</Table.Th>
+                <Table.Th>{t.results.columns.bitrate}</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {result.rows.map((row) => {
+                const index = tracks.findIndex((track) => track.id === row.trackId);
+                const track = tracks[index];
+                const bitrate =
+                  track && durationSeconds > 0 ? Math.round((track.encodedBytes * 8) / durationSeconds / 1000) : null;
+                return (
+                  <Table.Tr key={row.trackId}>
+                    <Table.Td>{t.quiz.track(index + 1)}</Table.Td>
+                    <Table.Td>
+                      {getProfileLabel(row.truth)}
+                      {track?.adjustment ? (
+                        <Text size='xs' c='dimmed'>
+                          {t.alignment.adjustment(track.adjustment)}
+                        </Text>
+                      ) : null}
+                    </Table.Td>
+                    <Table.Td>{row.guess ? getProfileLabel(row.guess) : t.results.unanswered}</Table.Td>
+                    <Table.Td>
+                      <Badge color={row.correct ? 'green' : 'red'}>
+                        {row.correct ? t.results.correct : t.results.incorrect}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>{track ? formatBytes(track.encodedBytes) : '-'}</Table.Td>
+                    <Table.Td>{bitrate !== null ? `${bitrate} kbps` : '-'}</Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+        <Switch
+          label={t.results.revealLabels}
+          checked={revealLabels}
+          onChange={(event) => onRevealLabelsChange(event.currentTarget.checked)}
+        />
+        {children}
+      </Stack>
+    </Paper>
+  );
+}
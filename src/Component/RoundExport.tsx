@@ -0,0 +1,128 @@
+import { Alert, Button, Group, Paper, Stack, Text } from '@mantine/core';
+import { IconDownload, IconFileReport, IconLock } from '@tabler/icons-react';
+import { useState } from 'react';
+import { ButtonCopy } from '../ButtonCopy';
+import { downloadBlob } from '../lib/download';
+import type { QuizResult, QuizTrack, RoundInfo } from '../lib/quiz';
+import { buildReportHtml, buildRoundPackage, buildRoundReport, renderHeardTrack } from '../lib/roundPackage';
+import type { SourceInfo } from '../lib/sourceProbe';
+import { useI18n } from './useI18n';
+
+// 印刷用レポートを開いたタブが読み込み終わるまで、Blob URLを解放せずに待つ時間
+const REPORT_URL_LIFETIME_MS = 60_000;
+
+type RoundExportProps = {
+  tracks: QuizTrack[];
+  roundInfo: RoundInfo;
+  // 採点前はnull。レポートは採点後にだけ書き出せる
+  result: QuizResult | null;
+  sourceInfo: SourceInfo | null;
+  // 再生エンジンが持っている、音量と頭出しを揃えた後のバッファ
+  getHeardBuffer: (trackId: string) => AudioBuffer | undefined;
+};
+
+// 変換済みのバリアントをZIPにまとめ、採点後はレポートも書き出せるようにする
+export function RoundExport({ tracks, roundInfo, result, sourceInfo, getHeardBuffer }: RoundExportProps) {
+  const { t } = useI18n();
+  const [exporting, setExporting] = useState(false);
+  // 解答を封した合言葉。書き出した直後にだけ表示する
+  const [passphrase, setPassphrase] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  async function handleExportPackage() {
+    setExporting(true);
+    setFailed(false);
+    try {
+      const heardTracks = tracks.map((track) => {
+        const buffer = getHeardBuffer(track.id);
+        if (!buffer) {
+          throw new Error(`No playback buffer for ${track.id}`);
+        }
+        return renderHeardTrack(track, buffer);
+      });
+      const { blob, fileName, passphrase: nextPassphrase } = await buildRoundPackage(heardTracks, roundInfo);
+      downloadBlob(blob, fileName);
+      setPassphrase(nextPassphrase);
+    } catch (error) {
+      console.error(error);
+      setFailed(true);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function handleExportReport() {
+    if (!result) {
+      return;
+    }
+    const report = buildRoundReport(tracks, result, roundInfo, sourceInfo);
+    downloadBlob(
+      new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }),
+      `audio-quality-quiz-report-${report.generatedAt.slice(0, 10)}.json`
+    );
+  }
+
+  function handleOpenPrintableReport() {
+    if (!result) {
+      return;
+    }
+    const html = buildReportHtml(buildRoundReport(tracks, result, roundInfo, sourceInfo));
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    window.open(url, '_blank');
+    window.setTimeout(() => URL.revokeObjectURL(url), REPORT_URL_LIFETIME_MS);
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack gap='sm'>
+        <Text fw='bold'>{t.export.title}</Text>
+        <Text size='sm' c='dimmed'>
+          {t.export.description}
+        </Text>
+        <Group>
+          <Button
+            variant='light'
+            leftSection={<IconDownload size={18} />}
+            onClick={handleExportPackage}
+            loading={exporting}
+          >
+            {t.export.package}
+          </Button>
+          <Button
+            variant='light'
+            leftSection={<IconDownload size={18} />}
+            onClick={handleExportReport}
+            disabled={!result}
+          >
+            {t.export.report}
+          </Button>
+          <Button
+            variant='light'
+            leftSection={<IconFileReport size={18} />}
+            onClick={handleOpenPrintableReport}
+            disabled={!result}
+          >
+            {t.export.printable}
+          </Button>
+        </Group>
+        {passphrase ? (
+          <Alert icon={<IconLock size={18} />} color='blue' variant='light'>
+            <Group justify='space-between'>
+              <Text size='sm'>
+                {t.export.passphrase} <b>{passphrase}</b>
+                <br />
+                {t.export.passphraseHint}
+              </Text>
+              <ButtonCopy content={passphrase} />
+            </Group>
+          </Alert>
+        ) : null}
+        {failed ? (
+          <Text size='sm' c='red'>
+            {t.export.failed}
+          </Text>
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,256 @@
+import { Alert, Badge, Button, FileButton, Group, Paper, Progress, Stack, Table, Text, Title } from '@mantine/core';
+import { IconDownload, IconInfoCircle, IconUpload } from '@tabler/icons-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { downloadBlob } from '../lib/download';
+import {
+  buildConfusionMatrix,
+  collectReliableRatings,
+  estimateDetectionThreshold,
+  summarizeByDay,
+  summarizeByProfile
+} from '../lib/historyStats';
+import { type RoundRecord, exportHistory, importHistory, listRounds } from '../lib/historyStore';
+import { summarizeMushraRatings } from '../lib/mushra';
+import { getProfileLabel } from '../lib/profiles';
+import { MushraChart } from './MushraChart';
+import { useI18n } from './useI18n';
+
+// 直近のラウンド一覧に表示する件数
+const RECENT_ROUND_COUNT = 20;
+
+type HistoryMessage = { kind: 'loadFailed' | 'importFailed' } | { kind: 'imported'; count: number };
+
+// IndexedDBに保存した採点履歴を集計して表示する
+export function ScoreHistory() {
+  const { locale, t } = useI18n();
+  const [rounds, setRounds] = useState<RoundRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  // 表示言語を切り替えても出し直せるよう、文言ではなく種類と件数を持つ
+  const [message, setMessage] = useState<HistoryMessage | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRounds(await listRounds());
+    } catch (error) {
+      console.error(error);
+      setMessage({ kind: 'loadFailed' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const daily = useMemo(() => summarizeByDay(rounds), [rounds]);
+  const byProfile = useMemo(() => summarizeByProfile(rounds), [rounds]);
+  const confusion = useMemo(() => buildConfusionMatrix(rounds), [rounds]);
+  const threshold = useMemo(() => estimateDetectionThreshold(byProfile), [byProfile]);
+  const mushraSummaries = useMemo(() => summarizeMushraRatings(collectReliableRatings(rounds)), [rounds]);
+  const totalAnswers = rounds.reduce((sum, round) => sum + round.answers.length, 0);
+  const totalCorrect = rounds.reduce((sum, round) => sum + round.answers.filter((answer) => answer.correct).length, 0);
+
+  async function handleExport() {
+    const data = await exportHistory();
+    downloadBlob(
+      new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+      `audio-quality-quiz-history-${new Date().toISOString().slice(0, 10)}.json`
+    );
+  }
+
+  async function handleImport(file: File | null) {
+    if (!file) {
+      return;
+    }
+    try {
+      const count = await importHistory(JSON.parse(await file.text()));
+      setMessage({ kind: 'imported', count });
+      await reload();
+    } catch (error) {
+      console.error(error);
+      setMessage({ kind: 'importFailed' });
+    }
+  }
+
+  return (
+    <Stack gap='lg'>
+      <Group justify='space-between'>
+        <Title order={3}>{t.history.title}</Title>
+        <Group gap='xs'>
+          <Button variant='light' leftSection={<IconDownload size={18} />} onClick={handleExport}>
+            {t.history.export}
+          </Button>
+          <FileButton onChange={handleImport} accept='application/json'>
+            {(props) => (
+              <Button variant='light' leftSection={<IconUpload size={18} />} {...props}>
+                {t.history.import}
+              </Button>
+            )}
+          </FileButton>
+        </Group>
+      </Group>
+
+      {message ? (
+        <Alert
+          icon={<IconInfoCircle size={18} />}
+          color={message.kind === 'imported' ? 'green' : 'red'}
+          variant='light'
+        >
+          {message.kind === 'imported' ? t.history.imported(message.count) : t.history[message.kind]}
+        </Alert>
+      ) : null}
+
+      {!loading && rounds.length === 0 ? <Text c='dimmed'>{t.history.empty}</Text> : null}
+
+      {rounds.length > 0 ? (
+        <>
+          <Paper withBorder p='lg'>
+            <Stack gap='xs'>
+              <Text>
+                {t.history.total(rounds.length, totalCorrect, totalAnswers, t.history.rate(totalCorrect, totalAnswers))}
+              </Text>
+              <Text>{threshold !== null ? t.history.threshold(threshold) : t.history.noThreshold}</Text>
+            </Stack>
+          </Paper>
+
+          <Paper withBorder p='lg'>
+            <Text fw='bold' mb='xs'>
+              {t.history.daily}
+            </Text>
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t.history.columns.date}</Table.Th>
+                  <Table.Th>{t.history.columns.rounds}</Table.Th>
+                  <Table.Th>{t.history.columns.rate}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {daily.map((day) => (
+                  <Table.Tr key={day.date}>
+                    <Table.Td>{day.date}</Table.Td>
+                    <Table.Td>{day.rounds}</Table.Td>
+                    <Table.Td>
+                      <Group gap='xs' wrap='nowrap'>
+                        <Progress value={(day.correct / Math.max(day.answers, 1)) * 100} w={160} />
+                        <Text size='sm'>{t.history.rate(day.correct, day.answers)}</Text>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Paper>
+
+          <Paper withBorder p='lg'>
+            <Text fw='bold' mb='xs'>
+              {t.history.byProfile}
+            </Text>
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t.history.columns.profile}</Table.Th>
+                  <Table.Th>{t.history.columns.answers}</Table.Th>
+                  <Table.Th>{t.history.columns.rate}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {byProfile.map((item) => (
+                  <Table.Tr key={item.profileId}>
+                    <Table.Td>{getProfileLabel(item.profileId)}</Table.Td>
+                    <Table.Td>{item.answers}</Table.Td>
+                    <Table.Td>{t.history.rate(item.correct, item.answers)}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Paper>
+
+          {mushraSummaries.length > 0 ? (
+            <Paper withBorder p='lg'>
+              <Text fw='bold' mb='xs'>
+                {t.history.mushra}
+              </Text>
+              <MushraChart summaries={mushraSummaries} />
+            </Paper>
+          ) : null}
+
+          <Paper withBorder p='lg'>
+            <Text fw='bold' mb='xs'>
+              {t.history.confusion}
+            </Text>
+            <Table.ScrollContainer minWidth={400}>
+              <Table withColumnBorders>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th />
+                    {confusion.profileIds.map((id) => (
+                      <Table.Th key={id}>{getProfileLabel(id)}</Table.Th>
+                    ))}
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {confusion.profileIds
+                    .filter((truth) => confusion.counts[truth])
+                    .map((truth) => (
+                      <Table.Tr key={truth}>
+                        <Table.Th>{getProfileLabel(truth)}</Table.Th>
+                        {confusion.profileIds.map((guess) => (
+                          <Table.Td key={guess} fw={truth === guess ? 'bold' : undefined}>
+                            {confusion.counts[truth]?.[guess] ?? 0}
+                          </Table.Td>
+                        ))}
+                      </Table.Tr>
+                    ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </Paper>
+
+          <Paper withBorder p='lg'>
+            <Text fw='bold' mb='xs'>
+              {t.history.recent}
+            </Text>
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t.history.columns.timestamp}</Table.Th>
+                  <Table.Th>{t.history.columns.track}</Table.Th>
+                  <Table.Th>{t.history.columns.mode}</Table.Th>
+                  <Table.Th>{t.history.columns.profiles}</Table.Th>
+                  <Table.Th>{t.history.columns.score}</Table.Th>
+                  <Table.Th>{t.history.columns.duration}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {[...rounds]
+                  .reverse()
+                  .slice(0, RECENT_ROUND_COUNT)
+                  .map((round) => (
+                    <Table.Tr key={round.id}>
+                      <Table.Td>{new Date(round.timestamp).toLocaleString(locale)}</Table.Td>
+                      <Table.Td>{round.fileName}</Table.Td>
+                      <Table.Td>
+                        <Badge variant='light'>{t.quiz.modes[round.mode] ?? t.quiz.modes.label}</Badge>
+                      </Table.Td>
+                      <Table.Td>{round.profileIds.map(getProfileLabel).join(', ')}</Table.Td>
+                      <Table.Td>
+                        {round.mode === 'mushra'
+                          ? round.reliable === false
+                            ? t.history.excluded
+                            : t.history.ratingOnly
+                          : `${round.answers.filter((answer) => answer.correct).length} / ${round.answers.length}`}
+                      </Table.Td>
+                      <Table.Td>{t.history.duration(Math.round(round.listeningMs / 1000))}</Table.Td>
+                    </Table.Tr>
+                  ))}
+              </Table.Tbody>
+            </Table>
+          </Paper>
+        </>
+      ) : null}
+    </Stack>
+  );
+}
@@ -0,0 +1,50 @@
+import { Alert, Paper, Stack, Table, Text } from '@mantine/core';
+import { IconTrophy } from '@tabler/icons-react';
+import { type SessionRoundScore, summarizeSession } from '../lib/session';
+import { useI18n } from './useI18n';
+
+type SessionSummaryProps = {
+  scores: SessionRoundScore[];
+  roundCount: number;
+};
+
+// プレイリストの全ラウンドを通した成績
+export function SessionSummary({ scores, roundCount }: SessionSummaryProps) {
+  const { t } = useI18n();
+  const { correct, total } = summarizeSession(scores);
+  const finished = scores.length === roundCount;
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack>
+        {finished ? (
+          <Alert icon={<IconTrophy size={18} />} color='green' variant='light'>
+            {t.session.finished(roundCount, correct, total)}
+          </Alert>
+        ) : (
+          <Text>{t.session.progress(scores.length, roundCount, correct, total)}</Text>
+        )}
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>#</Table.Th>
+              <Table.Th>{t.session.columns.track}</Table.Th>
+              <Table.Th>{t.session.columns.score}</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {scores.map((score, index) => (
+              <Table.Tr key={`${index}-${score.fileName}`}>
+                <Table.Td>{index + 1}</Table.Td>
+                <Table.Td>{score.fileName}</Table.Td>
+                <Table.Td>
+                  {score.correct} / {score.total}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Stack>
+    </Paper>
+  );
+}
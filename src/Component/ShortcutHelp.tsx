@@ -0,0 +1,81 @@
+import { Group, Kbd, Modal, Table, Text } from '@mantine/core';
+import type { ReactNode } from 'react';
+import { useI18n } from './useI18n';
+import { HOTKEY_FINE_SEEK_SECONDS, HOTKEY_SEEK_SECONDS, getAnswerKey } from './useListeningHotkeys';
+
+type ShortcutHelpProps = {
+  opened: boolean;
+  onClose: () => void;
+  // 数字キー1, 2, 3...に対応するトラック名
+  trackLabels: string[];
+  // 文字キーA, B, C...に対応する解答
+  answerLabels: string[];
+  // 文字キーの説明。音質当てでは再生中のトラックへの解答になる
+  answerDescription: string;
+  submitLabel?: string;
+};
+
+// キーボード操作の一覧。?キーまたはボタンから開く
+export function ShortcutHelp({
+  opened,
+  onClose,
+  trackLabels,
+  answerLabels,
+  answerDescription,
+  submitLabel
+}: ShortcutHelpProps) {
+  const { t } = useI18n();
+  const rows: Array<{ id: string; keys: ReactNode; description: ReactNode }> = [
+    ...trackLabels.slice(0, 9).map((label, index) => ({
+      id: `track-${index}`,
+      keys: <Kbd>{index + 1}</Kbd>,
+      description: t.shortcuts.playTrack(label)
+    })),
+    { id: 'space', keys: <Kbd>Space</Kbd>, description: t.shortcuts.pause },
+    {
+      id: 'seek',
+      keys: (
+        <Group gap={4}>
+          <Kbd>←</Kbd>
+          <Kbd>→</Kbd>
+        </Group>
+      ),
+      description: t.shortcuts.seek(HOTKEY_SEEK_SECONDS)
+    },
+    {
+      id: 'fine-seek',
+      keys: (
+        <Group gap={4}>
+          <Kbd>Shift</Kbd>+<Kbd>←</Kbd>
+          <Kbd>→</Kbd>
+        </Group>
+      ),
+      description: t.shortcuts.seek(HOTKEY_FINE_SEEK_SECONDS)
+    },
+    ...answerLabels.map((label, index) => ({
+      id: `answer-${index}`,
+      keys: <Kbd>{getAnswerKey(index)}</Kbd>,
+      description: `${answerDescription}: ${label}`
+    })),
+    ...(submitLabel ? [{ id: 'submit', keys: <Kbd>Enter</Kbd>, description: submitLabel }] : []),
+    { id: 'help', keys: <Kbd>?</Kbd>, description: t.shortcuts.help }
+  ];
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={t.shortcuts.title} size='lg'>
+      <Table>
+        <Table.Tbody>
+          {rows.map((row) => (
+            <Table.Tr key={row.id}>
+              <Table.Td w={160}>{row.keys}</Table.Td>
+              <Table.Td>{row.description}</Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      <Text size='xs' c='dimmed' mt='sm'>
+        {t.shortcuts.focusNote}
+      </Text>
+    </Modal>
+  );
+}
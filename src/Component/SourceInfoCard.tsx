@@ -0,0 +1,86 @@
+import { Alert, Badge, Checkbox, Group, Loader, Paper, Stack, Text } from '@mantine/core';
+import { IconAlertTriangle, IconInfoCircle } from '@tabler/icons-react';
+import { formatSeconds } from '../lib/quiz';
+import { type SourceInfo, type SourceIssue, describeSourceIssue } from '../lib/sourceProbe';
+import { useI18n } from './useI18n';
+
+export type SourceProbeState = { status: 'probing' } | { status: 'done'; info: SourceInfo } | { status: 'failed' };
+
+const ISSUE_COLORS: Record<SourceIssue['level'], string> = {
+  info: 'blue',
+  warning: 'yellow',
+  block: 'red'
+};
+
+type SourceInfoCardProps = {
+  probe: SourceProbeState;
+  issues: SourceIssue[];
+  // blockの問題を承知の上で変換を続けるか
+  acknowledged: boolean;
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+};
+
+// 選んだ音源のコーデックやビットレートと、オリジナルとして使う上での注意を表示する
+export function SourceInfoCard({ probe, issues, acknowledged, onAcknowledgedChange }: SourceInfoCardProps) {
+  const { t } = useI18n();
+  if (probe.status === 'probing') {
+    return (
+      <Group gap='xs'>
+        <Loader size='xs' />
+        <Text size='sm' c='dimmed'>
+          {t.source.probing}
+        </Text>
+      </Group>
+    );
+  }
+  if (probe.status === 'failed') {
+    return (
+      <Text size='sm' c='dimmed'>
+        {t.source.probeFailed}
+      </Text>
+    );
+  }
+
+  const { info } = probe;
+  const details = [
+    info.formatName,
+    info.sampleRate !== null ? `${(info.sampleRate / 1000).toFixed(1)} kHz` : null,
+    info.bitDepth !== null ? `${info.bitDepth} bit` : null,
+    info.channels !== null ? `${info.channels} ch` : null,
+    info.bitrateKbps !== null ? `${info.bitrateKbps} kbps` : null,
+    info.durationSeconds !== null ? formatSeconds(info.durationSeconds) : null
+  ].filter((detail) => detail);
+  // 音声トラックが無い場合は変換しようがないので、承知して続ける選択肢も出さない
+  const blocked = issues.some((issue) => issue.level === 'block');
+
+  return (
+    <Paper withBorder p='sm'>
+      <Stack gap='xs'>
+        <Group gap='xs'>
+          <Badge color={info.lossless ? 'green' : 'orange'} variant='light'>
+            {info.codec ?? t.source.noAudio}
+          </Badge>
+          <Text size='sm'>{details.join(' / ')}</Text>
+        </Group>
+        {issues.map((issue) => (
+          <Alert
+            key={issue.code}
+            icon={issue.level === 'info' ? <IconInfoCircle size={18} /> : <IconAlertTriangle size={18} />}
+            color={ISSUE_COLORS[issue.level]}
+            variant='light'
+            p='xs'
+          >
+            {describeSourceIssue(issue, t)}
+          </Alert>
+        ))}
+        {blocked && info.codec ? (
+          <Checkbox
+            label={t.source.acknowledge}
+            checked={acknowledged}
+            onChange={(event) => onAcknowledgedChange(event.currentTarget.checked)}
+          />
+        ) : null}
+      </Stack>
+    </Paper>
+  );
+}
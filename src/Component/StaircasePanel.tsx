@@ -0,0 +1,70 @@
+import { Alert, Badge, Button, Group, Paper, Stack, Text } from '@mantine/core';
+import { IconPlayerTrackNextFilled, IconStairsUp } from '@tabler/icons-react';
+import { getProfileLabel } from '../lib/profiles';
+import {
+  type Staircase,
+  estimateStaircaseThreshold,
+  getStaircaseProfileId,
+  isStaircaseFinished
+} from '../lib/staircase';
+import { useI18n } from './useI18n';
+
+type StaircasePanelProps = {
+  staircase: Staircase;
+  // 現在のステップを採点し終え、次のステップへ進める状態か
+  canAdvance: boolean;
+  onNext: () => void;
+  onEnd: () => void;
+};
+
+// 適応モードの進み具合と、推定した聞き分けの限界ビットレートを表示する
+export function StaircasePanel({ staircase, canAdvance, onNext, onEnd }: StaircasePanelProps) {
+  const { t } = useI18n();
+  const { ladder, trials, reversalLevels, level } = staircase;
+  const finished = isStaircaseFinished(staircase);
+  const threshold = estimateStaircaseThreshold(staircase);
+  const topLevel = ladder.profileIds.length - 1;
+
+  let summary: string;
+  if (threshold !== null) {
+    summary = t.staircase.threshold(ladder.label, threshold);
+  } else if (level === topLevel && trials.some((trial) => trial.level === topLevel && trial.correct)) {
+    // 「むずかしい」は最高ビットレートから始まるので、そこで実際に正解するまではこの結論を出さない
+    summary = t.staircase.top(ladder.label);
+  } else {
+    summary = t.staircase.noEstimate;
+  }
+
+  return (
+    <Paper withBorder p='lg'>
+      <Stack>
+        <Group justify='space-between'>
+          <Text fw='bold'>{t.staircase.title(ladder.label, trials.length, reversalLevels.length)}</Text>
+          {!finished ? (
+            <Badge variant='light'>{t.staircase.next(getProfileLabel(getStaircaseProfileId(staircase)))}</Badge>
+          ) : null}
+        </Group>
+        <Group gap={4}>
+          {trials.map((trial, index) => (
+            <Badge key={`${index}-${trial.profileId}`} color={trial.correct ? 'green' : 'red'} variant='light'>
+              {getProfileLabel(trial.profileId)}
+            </Badge>
+          ))}
+        </Group>
+        <Alert icon={<IconStairsUp size={18} />} color={finished ? 'green' : 'blue'} variant='light'>
+          {finished ? t.staircase.finished(summary) : summary}
+        </Alert>
+        <Group justify='center'>
+          {!finished ? (
+            <Button rightSection={<IconPlayerTrackNextFilled size={18} />} onClick={onNext} disabled={!canAdvance}>
+              {t.staircase.nextStep}
+            </Button>
+          ) : null}
+          <Button variant='subtle' onClick={onEnd}>
+            {t.staircase.end}
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,107 @@
+import { Select, Stack, Text } from '@mantine/core';
+import { useEffect, useState } from 'react';
+import {
+  type BundledSample,
+  TEST_SIGNAL_IDS,
+  fetchBundledSamples,
+  generateTestSignal,
+  getBundledSampleLabel,
+  isTestSignalId,
+  loadBundledSample
+} from '../lib/testSignals';
+import { useI18n } from './useI18n';
+
+const BUNDLED_PREFIX = 'bundled:';
+
+type TestSignalPickerProps = {
+  onSelect: (file: File | null) => void;
+  onError: (message: string) => void;
+};
+
+// 合成したテスト信号または同梱音源を選び、アップロードされた曲と同じようにFileとして渡す
+export function TestSignalPicker({ onSelect, onError }: TestSignalPickerProps) {
+  const { locale, t } = useI18n();
+  const [value, setValue] = useState<string | null>(null);
+  const [bundledSamples, setBundledSamples] = useState<BundledSample[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBundledSamples().then((samples) => {
+      if (!cancelled) {
+        setBundledSamples(samples);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const data = [
+    {
+      group: t.testSignals.synthesized,
+      items: TEST_SIGNAL_IDS.map((id) => ({ value: id, label: t.testSignals.signals[id].label }))
+    },
+    ...(bundledSamples.length > 0
+      ? [
+          {
+            group: t.testSignals.bundled,
+            items: bundledSamples.map((sample) => ({
+              value: `${BUNDLED_PREFIX}${sample.file}`,
+              label: getBundledSampleLabel(sample, locale)
+            }))
+          }
+        ]
+      : [])
+  ];
+  const selectedSignal = value && isTestSignalId(value) ? t.testSignals.signals[value] : undefined;
+  const selectedSample = bundledSamples.find((sample) => `${BUNDLED_PREFIX}${sample.file}` === value);
+
+  async function handleChange(nextValue: string | null) {
+    setValue(nextValue);
+    if (!nextValue) {
+      onSelect(null);
+      return;
+    }
+    if (isTestSignalId(nextValue)) {
+      onSelect(generateTestSignal(nextValue));
+      return;
+    }
+    const sample = bundledSamples.find((item) => `${BUNDLED_PREFIX}${item.file}` === nextValue);
+    if (!sample) {
+      return;
+    }
+    setLoading(true);
+    try {
+      onSelect(await loadBundledSample(sample));
+    } catch (error) {
+      onError(t.testSignals.loadFailed(getBundledSampleLabel(sample, locale)));
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Stack gap='xs'>
+      <Select
+        placeholder={t.testSignals.placeholder}
+        data={data}
+        value={value}
+        onChange={handleChange}
+        disabled={loading}
+      />
+      {selectedSignal ? (
+        <Text size='sm' c='dimmed'>
+          {selectedSignal.description}
+        </Text>
+      ) : null}
+      {selectedSample ? (
+        <Text size='sm' c='dimmed'>
+          {selectedSample.attribution} ({selectedSample.license})
+          {selectedSample.sourceUrl ? ` ${selectedSample.sourceUrl}` : ''}
+        </Text>
+      ) : null}
+    </Stack>
+  );
+}
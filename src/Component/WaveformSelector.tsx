@@ -0,0 +1,128 @@
+import { Box, Text } from '@mantine/core';
+import { useElementSize, useMergedRef, useMove } from '@mantine/hooks';
+import { useEffect, useRef } from 'react';
+import { type ClipRegion, formatSeconds } from '../lib/quiz';
+import { useI18n } from './useI18n';
+
+const WAVEFORM_HEIGHT = 80;
+// ドラッグではなくクリックだった場合に確保する最短の区間
+const MIN_REGION_SECONDS = 1;
+
+type WaveformSelectorProps = {
+  peaks: Float32Array;
+  duration: number;
+  region: ClipRegion;
+  maxRegionSeconds: number;
+  onRegionChange: (region: ClipRegion) => void;
+  // チャレンジのように区間が決まっている場合は、波形を表示するだけでドラッグを受け付けない
+  disabled?: boolean;
+};
+
+// オリジナルの波形を表示し、ドラッグで変換・ループ再生する区間を選ぶコンポーネント
+export function WaveformSelector({
+  peaks,
+  duration,
+  region,
+  maxRegionSeconds,
+  onRegionChange,
+  disabled = false
+}: WaveformSelectorProps) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { ref: sizeRef, width } = useElementSize();
+  // ドラッグ開始位置。useMoveは開始座標を直接渡さないため、最初のコールバックで記録する
+  const anchorRef = useRef<number | null>(null);
+
+  const { ref: moveRef, active } = useMove(
+    ({ x }) => {
+      if (disabled) {
+        return;
+      }
+      const seconds = x * duration;
+      if (anchorRef.current === null) {
+        anchorRef.current = seconds;
+      }
+      const anchor = anchorRef.current;
+      let start = Math.min(anchor, seconds);
+      let end = Math.max(anchor, seconds);
+      // 最大長を超えたらドラッグ方向の端を詰め、アンカー側は動かさない
+      if (end - start > maxRegionSeconds) {
+        if (seconds < anchor) {
+          start = end - maxRegionSeconds;
+        } else {
+          end = start + maxRegionSeconds;
+        }
+      }
+      if (end - start < MIN_REGION_SECONDS) {
+        end = Math.min(start + MIN_REGION_SECONDS, duration);
+        start = Math.max(end - MIN_REGION_SECONDS, 0);
+      }
+      onRegionChange({ start, duration: end - start });
+    },
+    {
+      onScrubStart: () => {
+        anchorRef.current = null;
+      }
+    }
+  );
+  const containerRef = useMergedRef(sizeRef, moveRef);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(width * ratio);
+    canvas.height = Math.floor(WAVEFORM_HEIGHT * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+    context.fillStyle = '#228be6';
+    const middle = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < width; x += 1) {
+      const peak = peaks[Math.floor((x / width) * peaks.length)] ?? 0;
+      const height = Math.max(peak * middle, 0.5);
+      context.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [peaks, width]);
+
+  const left = duration > 0 ? (region.start / duration) * 100 : 0;
+  const regionWidth = duration > 0 ? (region.duration / duration) * 100 : 0;
+
+  return (
+    <Box>
+      <Box
+        ref={containerRef}
+        pos='relative'
+        h={WAVEFORM_HEIGHT}
+        bg='gray.0'
+        style={{
+          cursor: disabled ? 'default' : active ? 'grabbing' : 'crosshair',
+          userSelect: 'none',
+          touchAction: disabled ? 'auto' : 'none'
+        }}
+      >
+        <canvas ref={canvasRef} style={{ width: '100%', height: WAVEFORM_HEIGHT, display: 'block' }} />
+        <Box
+          pos='absolute'
+          top={0}
+          h='100%'
+          bg='rgba(250, 82, 82, 0.2)'
+          style={{ left: `${left}%`, width: `${regionWidth}%`, borderInline: '1px solid var(--mantine-color-red-6)' }}
+        />
+      </Box>
+      <Text size='sm' c='dimmed'>
+        {t.waveform.selection(
+          formatSeconds(region.start),
+          formatSeconds(region.start + region.duration),
+          region.duration
+        )}
+        {disabled ? '' : ` / ${t.waveform.dragHint}`}
+      </Text>
+    </Box>
+  );
+}
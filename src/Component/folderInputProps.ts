@@ -0,0 +1,4 @@
+import type { ComponentPropsWithoutRef } from 'react';
+
+// FileButtonの入力要素でフォルダを選べるようにする。Reactの型定義に無い属性なので型を合わせている
+export const FOLDER_INPUT_PROPS = { webkitdirectory: '' } as ComponentPropsWithoutRef<'input'>;
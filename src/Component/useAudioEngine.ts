@@ -0,0 +1,163 @@
+import { useInterval } from '@mantine/hooks';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type TrackAdjustment, alignTracks } from '../lib/alignment';
+import { AudioEngine, type AudioEngineState } from '../lib/audioEngine';
+import type { QuizTrack } from '../lib/quiz';
+
+// クロスフェードを有効にした時の切り替え時間
+export const CROSSFADE_SECONDS = 0.03;
+// 再生位置表示の更新間隔
+const POSITION_POLL_MS = 200;
+
+// AudioEngineをReactの状態と結び付け、各パネルから同じ再生エンジンを操作できるようにするフック
+export function useAudioEngine() {
+  const engineRef = useRef<AudioEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new AudioEngine();
+  }
+  const engine = engineRef.current;
+  const [state, setState] = useState<AudioEngineState>(() => engine.getState());
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [crossfade, setCrossfadeState] = useState(false);
+  const [loop, setLoopState] = useState(() => engine.isLooping());
+
+  useEffect(() => {
+    const unsubscribe = engine.subscribe((next) => {
+      setState(next);
+      setPosition(engine.getPosition());
+      setDuration(engine.getDuration());
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [engine]);
+
+  // StrictModeの再マウントでも同じインスタンスを使い回せるよう、disposeは内部状態の初期化に留めている
+  useEffect(() => {
+    return () => {
+      engine.dispose();
+    };
+  }, [engine]);
+
+  const poller = useInterval(() => setPosition(engine.getPosition()), POSITION_POLL_MS);
+  useEffect(() => {
+    if (state.isPlaying) {
+      poller.start();
+    } else {
+      poller.stop();
+    }
+    return poller.stop;
+  }, [poller.start, poller.stop, state.isPlaying]);
+
+  // 全バリアントを事前にデコードしておき、切り替え時にロード待ちが発生しないようにする
+  // デコード後は基準トラックに対して頭出しと音量を揃え、補正量を呼び出し元に返す
+  const loadTracks = useCallback(
+    async (
+      tracks: QuizTrack[],
+      loudness: Record<string, number | null>,
+      referenceId: string
+    ): Promise<Record<string, TrackAdjustment>> => {
+      engine.clear();
+      const decoded = [];
+      for (const track of tracks) {
+        const buffer = await engine.decode(track.blob);
+        decoded.push({
+          id: track.id,
+          channels: Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index)),
+          sampleRate: buffer.sampleRate,
+          loudnessLufs: loudness[track.id] ?? null
+        });
+      }
+      const { channels, adjustments } = alignTracks(decoded, referenceId);
+      for (const item of decoded) {
+        engine.setBuffer(item.id, engine.createBuffer(channels[item.id], item.sampleRate));
+      }
+      setPosition(0);
+      setDuration(engine.getDuration());
+      return adjustments;
+    },
+    [engine]
+  );
+
+  const clearTracks = useCallback(() => {
+    engine.clear();
+    setPosition(0);
+    setDuration(0);
+  }, [engine]);
+
+  const assignTrack = useCallback((id: string, sourceId: string) => engine.alias(id, sourceId), [engine]);
+
+  const toggleTrack = useCallback(
+    (trackId: string) => {
+      if (engine.getState().playingId === trackId) {
+        engine.pause();
+        return;
+      }
+      engine.play(trackId);
+    },
+    [engine]
+  );
+
+  // 切り替え専用。同じトラックを指定しても一時停止はせず、現在の位置から鳴らし続ける
+  const playTrack = useCallback((trackId: string) => engine.play(trackId), [engine]);
+
+  const pause = useCallback(() => engine.pause(), [engine]);
+
+  const stop = useCallback(() => engine.stop(), [engine]);
+
+  const seekTo = useCallback(
+    (seconds: number) => {
+      engine.seek(seconds);
+      setPosition(engine.getPosition());
+    },
+    [engine]
+  );
+
+  const seekBy = useCallback(
+    (offsetSeconds: number) => {
+      engine.seekBy(offsetSeconds);
+      setPosition(engine.getPosition());
+    },
+    [engine]
+  );
+
+  const setCrossfade = useCallback(
+    (enabled: boolean) => {
+      engine.crossfadeSeconds = enabled ? CROSSFADE_SECONDS : 0;
+      setCrossfadeState(enabled);
+    },
+    [engine]
+  );
+
+  const setLoop = useCallback(
+    (enabled: boolean) => {
+      engine.setLoop(enabled);
+      setLoopState(enabled);
+    },
+    [engine]
+  );
+
+  return {
+    engine,
+    playingTrackId: state.playingId,
+    isPlaying: state.isPlaying,
+    position,
+    duration,
+    crossfade,
+    loop,
+    loadTracks,
+    clearTracks,
+    assignTrack,
+    toggleTrack,
+    playTrack,
+    pause,
+    stop,
+    seekTo,
+    seekBy,
+    setCrossfade,
+    setLoop
+  };
+}
+
+export type AudioPlayback = ReturnType<typeof useAudioEngine>;
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getMessages, localeStore } from '../lib/i18n';
+
+// 表示言語とそのメッセージを返すフック。言語を切り替えると使っているコンポーネントが描画し直される
+export function useI18n() {
+  const locale = useSyncExternalStore(localeStore.subscribe, localeStore.getLocale);
+  return { locale, t: getMessages(locale), setLocale: localeStore.setLocale };
+}
@@ -0,0 +1,95 @@
+import { type HotkeyItem, useHotkeys } from '@mantine/hooks';
+import { useEffect, useRef } from 'react';
+import type { AudioPlayback } from './useAudioEngine';
+
+// 矢印キーでシークする秒数。Shiftを押している間は細かく動かす
+export const HOTKEY_SEEK_SECONDS = 5;
+export const HOTKEY_FINE_SEEK_SECONDS = 1;
+// 数字キーで選べるトラック数と、文字キーで選べる解答の数
+const MAX_TRACK_KEYS = 9;
+const ANSWER_KEYS = 'abcdefghi';
+
+export function getAnswerKey(index: number): string | undefined {
+  return ANSWER_KEYS[index]?.toUpperCase();
+}
+
+// ボタンやスライダーにフォーカスがある時のSpace/Enter/矢印は、その部品自身の操作として扱わせる
+// 入力欄(Select含む)はuseHotkeysの既定で除外される
+function isControlTarget(event: KeyboardEvent): boolean {
+  return event.target instanceof HTMLElement && event.target.closest('button, a, [role="slider"]') !== null;
+}
+
+type ListeningHotkeysOptions = {
+  enabled: boolean;
+  playback: AudioPlayback;
+  // 数字キー1〜9に対応するトラックID(ABXのXのような別名を含む)
+  trackIds: string[];
+  onSelectTrack: (index: number) => void;
+  // 文字キーA, B, C...の順に割り当てる解答の操作
+  answers: Array<() => void>;
+  onSubmit?: () => void;
+  onToggleHelp: () => void;
+};
+
+// 目を閉じたまま聞き比べられるよう、再生の切り替え・シーク・解答をキーボードで行うためのフック
+export function useListeningHotkeys({
+  enabled,
+  playback,
+  trackIds,
+  onSelectTrack,
+  answers,
+  onSubmit,
+  onToggleHelp
+}: ListeningHotkeysOptions) {
+  const { playingTrackId, isPlaying, pause, seekBy } = playback;
+  // Spaceで再開する時に鳴らすトラック。最後に再生していたものを覚えておく
+  const lastIndexRef = useRef(0);
+
+  useEffect(() => {
+    const index = playingTrackId ? trackIds.indexOf(playingTrackId) : -1;
+    if (index >= 0) {
+      lastIndexRef.current = index;
+    }
+  }, [playingTrackId, trackIds]);
+
+  const withoutControlFocus = (handler: () => void) => (event: KeyboardEvent) => {
+    if (isControlTarget(event)) {
+      return;
+    }
+    event.preventDefault();
+    handler();
+  };
+  const passThrough = { preventDefault: false };
+
+  const hotkeys: HotkeyItem[] = [];
+  if (enabled) {
+    trackIds.slice(0, MAX_TRACK_KEYS).forEach((_, index) => {
+      hotkeys.push([String(index + 1), () => onSelectTrack(index)]);
+    });
+    answers.slice(0, ANSWER_KEYS.length).forEach((answer, index) => {
+      hotkeys.push([ANSWER_KEYS[index], answer]);
+    });
+    hotkeys.push(
+      [
+        'space',
+        withoutControlFocus(() => {
+          if (isPlaying) {
+            pause();
+          } else if (trackIds.length > 0) {
+            onSelectTrack(Math.min(lastIndexRef.current, trackIds.length - 1));
+          }
+        }),
+        passThrough
+      ],
+      ['arrowleft', withoutControlFocus(() => seekBy(-HOTKEY_SEEK_SECONDS)), passThrough],
+      ['arrowright', withoutControlFocus(() => seekBy(HOTKEY_SEEK_SECONDS)), passThrough],
+      ['shift+arrowleft', withoutControlFocus(() => seekBy(-HOTKEY_FINE_SEEK_SECONDS)), passThrough],
+      ['shift+arrowright', withoutControlFocus(() => seekBy(HOTKEY_FINE_SEEK_SECONDS)), passThrough],
+      ['shift+?', onToggleHelp]
+    );
+    if (onSubmit) {
+      hotkeys.push(['enter', withoutControlFocus(onSubmit), passThrough]);
+    }
+  }
+  useHotkeys(hotkeys);
+}
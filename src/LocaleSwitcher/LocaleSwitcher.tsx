@@ -0,0 +1,17 @@
+import { SegmentedControl } from '@mantine/core';
+import { useI18n } from '../Component/useI18n';
+import { LOCALES, type Locale } from '../lib/i18n';
+
+export function LocaleSwitcher() {
+  const { locale, t, setLocale } = useI18n();
+
+  return (
+    <SegmentedControl
+      size='xs'
+      aria-label={t.app.language}
+      data={LOCALES}
+      value={locale}
+      onChange={(value) => setLocale(value as Locale)}
+    />
+  );
+}
@@ -1,7 +1,10 @@
 import { Button, Center, Container, Group, Stack, Text, Title } from '@mantine/core';
 import { Link } from 'react-router-dom';
+import { useI18n } from './Component/useI18n';
 
 export default function NotFound() {
+  const { t } = useI18n();
+
   return (
     <Center style={{ minHeight: '60vh' }}>
       <Container>
@@ -10,11 +13,11 @@ export default function NotFound() {
             404 Not Found
           </Title>
           <Text c='dimmed' ta='center'>
-            お探しのページは見つかりませんでした。
+            {t.notFound.description}
           </Text>
           <Group>
             <Button component={Link} to='/'>
-              ホームに戻る
+              {t.notFound.backHome}
             </Button>
           </Group>
         </Stack>
@@ -0,0 +1,16 @@
+import { Anchor, Container } from '@mantine/core';
+import { Link } from 'react-router-dom';
+import { ScoreHistory } from './Component/ScoreHistory';
+import { useI18n } from './Component/useI18n';
+
+export default function Stats() {
+  const { t } = useI18n();
+  return (
+    <Container size='md' my={'md'}>
+      <Anchor component={Link} to='/' size='sm'>
+        {t.history.back}
+      </Anchor>
+      <ScoreHistory />
+    </Container>
+  );
+}
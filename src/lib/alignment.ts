@@ -0,0 +1,138 @@
+// エンコーダ遅延(LAMEで約1100サンプル、AACで1024〜2112サンプル)を十分にカバーする探索幅
+export const MAX_ALIGNMENT_LAG = 4096;
+// 相互相関を取る窓の長さ。長いほど頑健だが計算量が比例して増える
+const CORRELATION_WINDOW = 8192;
+
+export type TrackAdjustment = {
+  // ffmpegのebur128で測定したIntegrated loudness。測定できなかった場合はnull
+  loudnessLufs: number | null;
+  gainDb: number;
+  // 基準トラックに対する遅れ。正の値はその分だけ先頭を削ったことを表す
+  offsetSamples: number;
+  offsetMs: number;
+};
+
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i += 1) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+// 基準信号の中で最もエネルギーの大きい区間を選び、無音部分で相関を取って誤検出しないようにする
+function findLoudestWindow(signal: Float32Array, windowSize: number, margin: number): number {
+  let bestStart = margin;
+  let bestEnergy = -1;
+  const step = windowSize / 2;
+  for (let start = margin; start + windowSize + margin <= signal.length; start += step) {
+    let energy = 0;
+    for (let i = start; i < start + windowSize; i += 1) {
+      energy += signal[i] * signal[i];
+    }
+    if (energy > bestEnergy) {
+      bestEnergy = energy;
+      bestStart = start;
+    }
+  }
+  return bestStart;
+}
+
+// 相互相関が最大になるラグを求める。target[i + lag]がreference[i]に対応する
+export function estimateOffset(reference: Float32Array, target: Float32Array, maxLag = MAX_ALIGNMENT_LAG): number {
+  const windowSize = Math.min(CORRELATION_WINDOW, Math.max(reference.length - 2 * maxLag, 0));
+  if (windowSize <= 0) {
+    return 0;
+  }
+  const start = findLoudestWindow(reference, windowSize, maxLag);
+  let bestLag = 0;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let lag = -maxLag; lag <= maxLag; lag += 1) {
+    let score = 0;
+    for (let i = start; i < start + windowSize; i += 1) {
+      const j = i + lag;
+      if (j >= 0 && j < target.length) {
+        score += reference[i] * target[j];
+      }
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+}
+
+export function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+// 遅延分を削る(負の場合は無音を足す)と同時にゲインを掛け、全トラックを同じ長さに揃えたチャンネルデータを作る
+export function applyAdjustment(
+  channels: Float32Array[],
+  offsetSamples: number,
+  gainDb: number,
+  length: number
+): Float32Array[] {
+  const gain = dbToGain(gainDb);
+  return channels.map((channel) => {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i += 1) {
+      const j = i + offsetSamples;
+      if (j >= 0 && j < channel.length) {
+        output[i] = channel[j] * gain;
+      }
+    }
+    return output;
+  });
+}
+
+export type AlignableTrack = {
+  id: string;
+  channels: Float32Array[];
+  sampleRate: number;
+  loudnessLufs: number | null;
+};
+
+// 基準トラックに対するラグと、最も静かなトラックに合わせるゲインを算出して揃える
+// 音量は下げる方向にだけ補正し、クリップを起こさないようにしている
+export function alignTracks(
+  tracks: AlignableTrack[],
+  referenceId: string
+): { channels: Record<string, Float32Array[]>; adjustments: Record<string, TrackAdjustment> } {
+  const reference = tracks.find((track) => track.id === referenceId) ?? tracks[0];
+  const referenceMono = mixToMono(reference.channels);
+  const measured = tracks.map((track) => track.loudnessLufs).filter((value): value is number => value !== null);
+  const targetLoudness = measured.length > 0 ? Math.min(...measured) : null;
+
+  const adjustments: Record<string, TrackAdjustment> = {};
+  for (const track of tracks) {
+    const offsetSamples = track === reference ? 0 : estimateOffset(referenceMono, mixToMono(track.channels));
+    const gainDb = targetLoudness !== null && track.loudnessLufs !== null ? targetLoudness - track.loudnessLufs : 0;
+    adjustments[track.id] = {
+      loudnessLufs: track.loudnessLufs,
+      gainDb,
+      offsetSamples,
+      offsetMs: (offsetSamples / track.sampleRate) * 1000
+    };
+  }
+
+  // 末尾も揃えるため、補正後に全トラックで有効なサンプル数の最小値を共通の長さにする
+  const length = Math.min(
+    ...tracks.map(
+      (track) => Math.min(...track.channels.map((channel) => channel.length)) - adjustments[track.id].offsetSamples
+    )
+  );
+  const channels: Record<string, Float32Array[]> = {};
+  for (const track of tracks) {
+    const { offsetSamples, gainDb } = adjustments[track.id];
+    channels[track.id] = applyAdjustment(track.channels, offsetSamples, gainDb, Math.max(length, 0));
+  }
+  return { channels, adjustments };
+}
@@ -0,0 +1,243 @@
+export type AudioEngineState = {
+  playingId: string | null;
+  isPlaying: boolean;
+};
+
+type ActiveVoice = {
+  id: string;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+};
+
+// 切り替え時に旧ソースの停止と新ソースの開始を同じ時刻に揃えるための先読み時間
+const SCHEDULE_LEAD_SECONDS = 0.02;
+
+// 全バリアントをAudioBufferとして保持し、同じ再生位置のまま瞬時に切り替えられるWeb Audioの再生エンジン
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private readonly buffers = new Map<string, AudioBuffer>();
+  private voice: ActiveVoice | null = null;
+  // 再生中はcontext.currentTimeとの差分から位置を求め、停止中はpausedPositionを正とする
+  private startedAt = 0;
+  private startOffset = 0;
+  private pausedPosition = 0;
+  private lastBufferId: string | null = null;
+  private readonly listeners = new Set<(state: AudioEngineState) => void>();
+
+  crossfadeSeconds = 0;
+  // trueの間はバッファ全体(=選択した区間)を継ぎ目なく繰り返し再生する
+  private loop = false;
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  subscribe(listener: (state: AudioEngineState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): AudioEngineState {
+    return { playingId: this.voice?.id ?? null, isPlaying: this.voice !== null };
+  }
+
+  private emit() {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  // デコード結果はコンテキストのサンプルレートに揃うため、異なるコーデック間でもサンプル単位で比較できる
+  async decode(data: Blob | ArrayBuffer): Promise<AudioBuffer> {
+    const context = this.ensureContext();
+    const arrayBuffer = data instanceof Blob ? await data.arrayBuffer() : data;
+    return context.decodeAudioData(arrayBuffer);
+  }
+
+  createBuffer(channels: Float32Array[], sampleRate: number): AudioBuffer {
+    const length = channels[0]?.length ?? 0;
+    const buffer = new AudioBuffer({ length: Math.max(length, 1), numberOfChannels: channels.length, sampleRate });
+    for (let index = 0; index < channels.length; index += 1) {
+      buffer.copyToChannel(channels[index] as Float32Array<ArrayBuffer>, index);
+    }
+    return buffer;
+  }
+
+  setBuffer(id: string, buffer: AudioBuffer) {
+    this.buffers.set(id, buffer);
+  }
+
+  getBuffer(id: string): AudioBuffer | undefined {
+    return this.buffers.get(id);
+  }
+
+  // 別IDから同じバッファを参照させる。ABXのXのように中身を隠したまま再生したい場合に使う
+  alias(id: string, sourceId: string) {
+    const buffer = this.buffers.get(sourceId);
+    if (buffer) {
+      this.buffers.set(id, buffer);
+    }
+  }
+
+  clear() {
+    this.stop();
+    this.buffers.clear();
+    this.lastBufferId = null;
+  }
+
+  getDuration(): number {
+    const id = this.voice?.id ?? this.lastBufferId;
+    const buffer = id ? this.buffers.get(id) : undefined;
+    if (buffer) {
+      return buffer.duration;
+    }
+    // まだ何も再生していない場合は最短のバリアントに合わせ、どのトラックでも範囲外にならないようにする
+    let duration = 0;
+    for (const item of this.buffers.values()) {
+      duration = duration === 0 ? item.duration : Math.min(duration, item.duration);
+    }
+    return duration;
+  }
+
+  private positionAt(time: number): number {
+    if (!this.voice) {
+      return this.pausedPosition;
+    }
+    const duration = this.voice.source.buffer?.duration ?? Number.POSITIVE_INFINITY;
+    const position = this.startOffset + Math.max(time - this.startedAt, 0);
+    // ループ中のソースは末尾で先頭に戻るため、経過時間をバッファ長で折り返す
+    if (this.voice.source.loop && Number.isFinite(duration) && duration > 0) {
+      return position % duration;
+    }
+    return Math.min(position, duration);
+  }
+
+  getPosition(): number {
+    if (!this.voice || !this.context) {
+      return this.pausedPosition;
+    }
+    return this.positionAt(this.context.currentTime);
+  }
+
+  isLooping(): boolean {
+    return this.loop;
+  }
+
+  setLoop(enabled: boolean) {
+    if (this.voice && this.context) {
+      // ループ状態を変えると位置の折り返し計算が変わるため、現在位置を起点に計算し直す
+      const now = this.context.currentTime;
+      this.startOffset = this.positionAt(now);
+      this.startedAt = now;
+      this.voice.source.loop = enabled;
+    }
+    this.loop = enabled;
+  }
+
+  // 再生中なら同じ位置のまま対象を切り替え、停止中なら一時停止位置から再生を始める
+  play(id: string) {
+    const buffer = this.buffers.get(id);
+    if (!buffer) {
+      return;
+    }
+    const context = this.ensureContext();
+    void context.resume();
+    const when = context.currentTime + SCHEDULE_LEAD_SECONDS;
+    const position = this.voice ? this.positionAt(when) : this.pausedPosition;
+    const offset = Math.min(Math.max(position, 0), buffer.duration);
+    const previous = this.voice;
+    const fade = previous ? this.crossfadeSeconds : 0;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = this.loop;
+    const gain = context.createGain();
+    source.connect(gain).connect(context.destination);
+    if (fade > 0) {
+      gain.gain.setValueAtTime(0, when);
+      gain.gain.linearRampToValueAtTime(1, when + fade);
+    }
+    const voice: ActiveVoice = { id, source, gain };
+    source.onended = () => {
+      // stop()による終了では何もしない。自然に末尾へ到達した場合のみ停止状態に戻す
+      if (this.voice === voice) {
+        this.voice = null;
+        this.pausedPosition = 0;
+        this.emit();
+      }
+    };
+    source.start(when, offset);
+
+    if (previous) {
+      this.releaseVoice(previous, when, fade);
+    }
+    this.voice = voice;
+    this.startedAt = when;
+    this.startOffset = offset;
+    this.lastBufferId = id;
+    this.emit();
+  }
+
+  pause() {
+    if (!this.voice) {
+      return;
+    }
+    this.pausedPosition = this.getPosition();
+    const voice = this.voice;
+    this.voice = null;
+    this.releaseVoice(voice, this.context?.currentTime ?? 0, 0);
+    this.emit();
+  }
+
+  stop() {
+    this.pause();
+    this.pausedPosition = 0;
+  }
+
+  seek(position: number) {
+    const duration = this.getDuration();
+    const nextPosition = Math.min(Math.max(position, 0), duration);
+    if (!this.voice) {
+      this.pausedPosition = nextPosition;
+      this.emit();
+      return;
+    }
+    // 再生中のシークは同じトラックで鳴らし直す。クロスフェードは切り替え専用なので使わない
+    const { id } = this.voice;
+    const crossfade = this.crossfadeSeconds;
+    this.pause();
+    this.pausedPosition = nextPosition;
+    this.crossfadeSeconds = 0;
+    this.play(id);
+    this.crossfadeSeconds = crossfade;
+  }
+
+  seekBy(offsetSeconds: number) {
+    this.seek(this.getPosition() + offsetSeconds);
+  }
+
+  private releaseVoice(voice: ActiveVoice, when: number, fade: number) {
+    if (fade > 0) {
+      voice.gain.gain.setValueAtTime(1, when);
+      voice.gain.gain.linearRampToValueAtTime(0, when + fade);
+    }
+    try {
+      voice.source.stop(when + fade);
+    } catch (error) {
+      console.warn(error);
+    }
+  }
+
+  dispose() {
+    this.clear();
+    this.listeners.clear();
+    void this.context?.close();
+    this.context = null;
+  }
+}
@@ -0,0 +1,66 @@
+import type { RoundMode } from './historyStore';
+import { type ProfileId, getProfile } from './profiles';
+import type { ClipRegion } from './quiz';
+
+// 同じ曲を持っている相手に「同じクイズ」を出すための設定。曲そのものはリンクに含めない
+export type Challenge = {
+  mode: RoundMode;
+  profileIds: ProfileId[];
+  region: ClipRegion;
+  seed: number;
+  // ABXの試行回数。音質当てではトラック数がそのまま問題数になるので使わない
+  trials?: number;
+  strictBlind: boolean;
+  // リンクを作った人の成績
+  score?: { correct: number; total: number };
+};
+
+export function encodeChallenge(challenge: Challenge): URLSearchParams {
+  const params = new URLSearchParams({
+    m: challenge.mode,
+    p: challenge.profileIds.join(','),
+    s: challenge.region.start.toFixed(2),
+    d: challenge.region.duration.toFixed(2),
+    seed: challenge.seed.toString(36),
+    sb: challenge.strictBlind ? '1' : '0'
+  });
+  if (challenge.trials !== undefined) {
+    params.set('n', String(challenge.trials));
+  }
+  if (challenge.score) {
+    params.set('score', `${challenge.score.correct}-${challenge.score.total}`);
+  }
+  return params;
+}
+
+// 手で書き換えられたリンクでも壊れた設定で始めないよう、値を1つずつ検証する
+export function decodeChallenge(params: URLSearchParams): Challenge | null {
+  const mode = params.get('m');
+  // 同じ音質が重なるとトラックIDが衝突し、ABXではAとBが同じ音になってしまうので重複を除く
+  const profileIds = [...new Set((params.get('p') ?? '').split(','))].filter((id) => getProfile(id));
+  const start = Number(params.get('s'));
+  const duration = Number(params.get('d'));
+  const seed = Number.parseInt(params.get('seed') ?? '', 36);
+  if ((mode !== 'label' && mode !== 'abx') || profileIds.length < 2) {
+    return null;
+  }
+  if (!Number.isFinite(start) || start < 0 || !Number.isFinite(duration) || duration <= 0 || !Number.isFinite(seed)) {
+    return null;
+  }
+  const trials = Number(params.get('n'));
+  const [correct, total] = (params.get('score') ?? '').split('-').map(Number);
+  return {
+    mode,
+    profileIds,
+    region: { start, duration },
+    seed: seed >>> 0,
+    trials: Number.isInteger(trials) && trials > 0 ? trials : undefined,
+    strictBlind: params.get('sb') !== '0',
+    score: Number.isInteger(correct) && Number.isInteger(total) && total > 0 ? { correct, total } : undefined
+  };
+}
+
+// 配信しているのはindex.htmlだけなので、別のパスにせずトップページのクエリに載せる
+export function buildChallengeUrl(challenge: Challenge): string {
+  return `${window.location.origin}/?${encodeChallenge(challenge).toString()}`;
+}
@@ -0,0 +1,85 @@
+import { type ProfileId, getProfile, resolveProfileOutput, resolveStrictBlindOutput, sortProfileIds } from './profiles';
+import { type ClipRegion, buildClipInputArgs } from './quiz';
+
+// 1つのバリアントを作るためのffmpegの実行計画
+export type VariantPlan = {
+  profileId: ProfileId;
+  outputName: string;
+  // 出力ファイル名を除いたエンコード時の引数
+  command: string[];
+  mime: string;
+  // 厳密ブラインド時にエンコード結果をデコードし直すPCMファイル名と、その変換引数
+  pcm?: { name: string; args: string[] };
+};
+
+export type VariantPlanOptions = {
+  inputName: string;
+  // wasm FS上のファイル名の接頭辞。ジョブごとに変えて名前の衝突を防ぐ
+  namePrefix: string;
+  profileIds: ProfileId[];
+  region: ClipRegion;
+  strictBlind: boolean;
+  // オリジナル(copy)の出力形式を決めるための入力ファイルの拡張子とMIME
+  originalExtension: string;
+  originalType: string;
+};
+
+// 動画や複数の音声トラックを含む入力でも、最初の音声トラックだけを取り出して変換する
+const AUDIO_STREAM_ARGS = ['-map', '0:a:0'];
+// -c copyのまま書き出せる音声コンテナの拡張子。これ以外(mkvや独自形式など)はFLACへ変換してオリジナルとする
+const REMUXABLE_EXTENSIONS = ['wav', 'flac', 'mp3', 'm4a', 'mp4', 'aac', 'ogg', 'oga', 'opus', 'webm', 'aif', 'aiff'];
+
+export function canRemuxOriginal(extension: string): boolean {
+  return REMUXABLE_EXTENSIONS.includes(extension.toLowerCase());
+}
+
+// オリジナルファイルの拡張子は保持しておき、コピー時はコーデックを弄らず正しいMIMEに結び付ける
+export function getFileExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1) : 'orig';
+}
+
+// 選択されたプロファイルからffmpegの実行計画を組み立て、バリアント数を固定しない
+export function buildVariantPlans({
+  inputName,
+  namePrefix,
+  profileIds,
+  region,
+  strictBlind,
+  originalExtension,
+  originalType
+}: VariantPlanOptions): VariantPlan[] {
+  const plans: VariantPlan[] = [];
+  const clipArgs = [...buildClipInputArgs(region), '-i', inputName];
+  const strictOutput = resolveStrictBlindOutput(profileIds);
+  for (const profileId of sortProfileIds(profileIds)) {
+    const profile = getProfile(profileId);
+    if (!profile) {
+      continue;
+    }
+    if (strictBlind && profile.codec === 'copy') {
+      // オリジナルはロッシー往復が無いので、コピーを経由せず直接PCMにする
+      plans.push({
+        profileId,
+        outputName: `${namePrefix}_${profileId}.${strictOutput.extension}`,
+        command: [...clipArgs, ...strictOutput.args],
+        mime: strictOutput.mime
+      });
+      continue;
+    }
+    // コピーできない形式のオリジナルは、音を変えずにFLACへ詰め直す
+    const fallback = profile.codec === 'copy' && !canRemuxOriginal(originalExtension) ? getProfile('flac') : undefined;
+    const outputProfile = fallback ?? profile;
+    const { extension, mime } = resolveProfileOutput(outputProfile, originalExtension, originalType);
+    plans.push({
+      profileId,
+      outputName: `${namePrefix}_${profileId}.${extension}`,
+      command: [...clipArgs, ...AUDIO_STREAM_ARGS, ...outputProfile.args],
+      mime: strictBlind ? strictOutput.mime : mime,
+      pcm: strictBlind
+        ? { name: `${namePrefix}_${profileId}_pcm.${strictOutput.extension}`, args: strictOutput.args }
+        : undefined
+    });
+  }
+  return plans;
+}
@@ -0,0 +1,419 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+import { type VariantPlan, buildVariantPlans, getFileExtension } from './conversionPlan';
+import { runFFmpegStep, withConversionStep } from './conversionSteps';
+import { type CoreDownloadProgress, type CoreURLs, fetchFFmpegCoreURLs } from './ffmpegCore';
+import { buildLoudnessCommand, parseIntegratedLoudness } from './loudness';
+import type { ProfileId } from './profiles';
+import { type ClipRegion, hasKnownClipDuration } from './quiz';
+import { type SourceInfo, buildProbeCommand, parseProbeOutput } from './sourceProbe';
+
+export type ConversionRequest = {
+  file: File;
+  profileIds: ProfileId[];
+  region: ClipRegion;
+  strictBlind: boolean;
+};
+
+export type VariantProgress = {
+  profileId: ProfileId;
+  status: 'pending' | 'running' | 'done' | 'error';
+  // エンコード・PCM化・ラウドネス測定を合わせた0〜1の進捗
+  ratio: number;
+  // 区間の長さが分からず、工程の途中の進み具合を出せない場合はtrue。ratioは工程が終わるごとにだけ進む
+  indeterminate: boolean;
+};
+
+export type ConvertedVariant = {
+  profileId: ProfileId;
+  fileName: string;
+  blob: Blob;
+  // 厳密ブラインドでPCMに戻す前の、エンコード直後のファイルサイズ(バイト)
+  encodedBytes: number;
+  // 無音などで測定できなかった場合はnull
+  loudness: number | null;
+};
+
+export type ConversionJob = {
+  id: string;
+  // 変換する区間。プレイリストのように区間をジョブ側で決めた場合も、出題時に同じ値を使う
+  region: ClipRegion;
+  // 全バリアントがプロファイルの定義順に揃った時点で解決する
+  result: Promise<ConvertedVariant[]>;
+  getProgress: () => VariantProgress[];
+  subscribe: (listener: (progress: VariantProgress[]) => void) => () => void;
+  cancel: () => void;
+};
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+type PoolSlot = {
+  ffmpeg: FFmpeg;
+  loading: Promise<void> | null;
+  busy: boolean;
+  // このインスタンスのwasm FSに書き込み済みの入力ファイル名
+  inputs: Set<string>;
+};
+
+type JobState = {
+  id: string;
+  inputName: string;
+  plans: VariantPlan[];
+  region: ClipRegion;
+  // 各インスタンスへ書き込むため、読み込んだ入力ファイルはジョブが終わるまで保持する
+  inputData: Promise<Uint8Array> | null;
+  progress: VariantProgress[];
+  results: Array<ConvertedVariant | undefined>;
+  listeners: Set<(progress: VariantProgress[]) => void>;
+  runningSlots: Set<PoolSlot>;
+  settled: boolean;
+  resolve: (variants: ConvertedVariant[]) => void;
+  reject: (error: unknown) => void;
+};
+
+// プールで実行する処理の単位。変換ジョブのバリアントと、入力ファイルの解析の2種類がある
+type PoolTask = {
+  // 変換ジョブのタスクの場合のみ。ジョブが終わった時に残りをキューから外すために使う
+  job?: JobState;
+  run: (slot: PoolSlot) => Promise<void>;
+};
+
+// 1インスタンスあたりwasmのヒープと入出力ファイルで数百MBを使うため、端末のメモリに応じて並列数を抑える
+function resolvePoolSize(): number {
+  if (typeof navigator === 'undefined') {
+    return 1;
+  }
+  const memoryGb = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+  const byMemory = memoryGb >= 8 ? 3 : memoryGb >= 4 ? 2 : 1;
+  return Math.max(1, Math.min(byMemory, (navigator.hardwareConcurrency ?? 2) - 1));
+}
+
+function createJobId(): string {
+  return `job${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// 変換済みのバリアント(CLIで生成したラウンドなど)を、変換ジョブと同じ形で出題に渡す
+export function createCompletedJob(variants: ConvertedVariant[], region: ClipRegion): ConversionJob {
+  return {
+    id: createJobId(),
+    region,
+    result: Promise.resolve(variants),
+    getProgress: () => [],
+    subscribe: () => () => undefined,
+    cancel: () => undefined
+  };
+}
+
+// 1つのバリアントをエンコードし、厳密ブラインドならPCMへ戻してからラウドネスを測る
+async function convertVariant(
+  ffmpeg: FFmpeg,
+  plan: VariantPlan,
+  // 出力される区間の長さ。分からない場合はnullにして、工程の区切りでだけ進捗を返す
+  durationSeconds: number | null,
+  onProgress: (ratio: number) => void
+): Promise<ConvertedVariant> {
+  // エンコード・PCM化・ラウドネス測定の各工程を均等な重みで1本の進捗にまとめる
+  const stepCount = plan.pcm ? 3 : 2;
+  const stepProgress = (stepIndex: number) => ({
+    durationSeconds: durationSeconds ?? undefined,
+    onProgress: (ratio: number) => onProgress((stepIndex + ratio) / stepCount)
+  });
+  await runFFmpegStep(ffmpeg, [...plan.command, plan.outputName], 'encode', plan.profileId, stepProgress(0));
+  if (plan.pcm) {
+    await runFFmpegStep(
+      ffmpeg,
+      ['-i', plan.outputName, ...plan.pcm.args, plan.pcm.name],
+      'decode',
+      plan.profileId,
+      stepProgress(1)
+    );
+  }
+  const resultName = plan.pcm?.name ?? plan.outputName;
+  // 音量差が答えのヒントにならないよう、エンコード結果そのもののラウドネスを測っておく
+  const loudnessLines = await runFFmpegStep(
+    ffmpeg,
+    buildLoudnessCommand(resultName),
+    'loudness',
+    plan.profileId,
+    stepProgress(stepCount - 1)
+  );
+  return withConversionStep('encode', plan.profileId, async () => {
+    const data = await ffmpeg.readFile(resultName);
+    // wasm FSは文字列/Uint8Arrayの両方を返し得るため、型を正規化してBlob生成を単純化する
+    const bytes = data instanceof Uint8Array ? new Uint8Array(data) : new TextEncoder().encode(data);
+    return {
+      profileId: plan.profileId,
+      fileName: resultName,
+      blob: new Blob([bytes], { type: plan.mime }),
+      encodedBytes: plan.pcm ? (await ffmpeg.readFile(plan.outputName)).length : bytes.byteLength,
+      loudness: parseIntegratedLoudness(loudnessLines)
+    };
+  });
+}
+
+// FFmpegインスタンスのプールを持ち、バリアント単位のタスクを空いたインスタンスへ割り振る変換サービス
+// Reactコンポーネントの寿命から切り離し、画面遷移で変換が打ち切られないようにしている
+export class ConversionService {
+  private readonly slots: PoolSlot[] = [];
+  private readonly queue: PoolTask[] = [];
+  private probeCount = 0;
+  private coreURLs: Promise<CoreURLs> | null = null;
+  readonly poolSize: number;
+
+  constructor(poolSize = resolvePoolSize()) {
+    this.poolSize = poolSize;
+  }
+
+  isReady(): boolean {
+    return this.slots[0]?.ffmpeg.loaded ?? false;
+  }
+
+  // ffmpeg-coreをダウンロードして最初のインスタンスを起動する。残りのインスタンスは必要になった時点で起動する
+  async load(onProgress?: (progress: CoreDownloadProgress) => void): Promise<void> {
+    if (!this.coreURLs) {
+      this.coreURLs = fetchFFmpegCoreURLs(onProgress);
+      this.coreURLs.catch(() => {
+        this.coreURLs = null;
+      });
+    }
+    await this.coreURLs;
+    const slot = this.slots[0] ?? this.createSlot();
+    await this.loadSlot(slot);
+  }
+
+  enqueue({ file, profileIds, region, strictBlind }: ConversionRequest): ConversionJob {
+    const id = createJobId();
+    const inputName = `${id}_input.${getFileExtension(file.name)}`;
+    const plans = buildVariantPlans({
+      inputName,
+      namePrefix: id,
+      profileIds,
+      region,
+      strictBlind,
+      originalExtension: getFileExtension(file.name),
+      originalType: file.type
+    });
+    let resolve: JobState['resolve'] = () => undefined;
+    let reject: JobState['reject'] = () => undefined;
+    const result = new Promise<ConvertedVariant[]>((onResolve, onReject) => {
+      resolve = onResolve;
+      reject = onReject;
+    });
+    const job: JobState = {
+      id,
+      inputName,
+      plans,
+      region,
+      inputData: fetchFile(file),
+      progress: plans.map((plan) => ({
+        profileId: plan.profileId,
+        status: 'pending',
+        ratio: 0,
+        indeterminate: !hasKnownClipDuration(region)
+      })),
+      results: [],
+      listeners: new Set(),
+      runningSlots: new Set(),
+      settled: false,
+      resolve,
+      reject
+    };
+    job.inputData?.catch(() => undefined);
+    if (plans.length === 0) {
+      job.settled = true;
+      resolve([]);
+    }
+    for (const planIndex of plans.keys()) {
+      this.queue.push({ job, run: (slot) => this.runVariant(slot, job, planIndex) });
+    }
+    this.pump();
+    return {
+      id,
+      region,
+      result,
+      getProgress: () => [...job.progress],
+      subscribe: (listener) => {
+        job.listeners.add(listener);
+        return () => {
+          job.listeners.delete(listener);
+        };
+      },
+      cancel: () => this.cancelJob(job)
+    };
+  }
+
+  // ffprobeで入力ファイルのコーデックやビットレートを調べる。変換と同じインスタンスを順番待ちで使う
+  probe(file: File): Promise<SourceInfo> {
+    this.probeCount += 1;
+    const inputName = `probe${this.probeCount}_input.${getFileExtension(file.name)}`;
+    const outputName = `probe${this.probeCount}.json`;
+    return new Promise<SourceInfo>((resolve, reject) => {
+      this.queue.push({
+        run: async (slot) => {
+          try {
+            resolve(
+              await withConversionStep('probe', null, async () => {
+                await this.loadSlot(slot);
+                await slot.ffmpeg.writeFile(inputName, await fetchFile(file));
+                const exitCode = await slot.ffmpeg.ffprobe(buildProbeCommand(inputName, outputName));
+                if (exitCode !== 0) {
+                  throw new Error(`ffprobe exited with code ${exitCode}`);
+                }
+                const output = await slot.ffmpeg.readFile(outputName, 'utf8');
+                return parseProbeOutput(typeof output === 'string' ? output : new TextDecoder().decode(output));
+              })
+            );
+          } catch (error) {
+            reject(error);
+          } finally {
+            if (slot.ffmpeg.loaded) {
+              for (const name of [inputName, outputName]) {
+                await slot.ffmpeg.deleteFile(name).catch(() => undefined);
+              }
+            }
+          }
+        }
+      });
+      this.pump();
+    });
+  }
+
+  private createSlot(): PoolSlot {
+    const slot: PoolSlot = { ffmpeg: new FFmpeg(), loading: null, busy: false, inputs: new Set() };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private async loadSlot(slot: PoolSlot): Promise<void> {
+    if (slot.ffmpeg.loaded) {
+      return;
+    }
+    if (!slot.loading) {
+      slot.loading = (async () => {
+        if (!this.coreURLs) {
+          throw new Error('ffmpeg-core has not been loaded');
+        }
+        await slot.ffmpeg.load(await this.coreURLs);
+      })().finally(() => {
+        slot.loading = null;
+      });
+    }
+    await slot.loading;
+  }
+
+  // 起動済みの空きインスタンスを優先し、無ければ上限までインスタンスを増やす
+  private acquireSlot(): PoolSlot | null {
+    const idle = this.slots.filter((slot) => !slot.busy);
+    const loaded = idle.find((slot) => slot.ffmpeg.loaded);
+    if (loaded) {
+      return loaded;
+    }
+    if (this.slots.length < this.poolSize) {
+      return this.createSlot();
+    }
+    return idle[0] ?? null;
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      const slot = this.acquireSlot();
+      if (!slot) {
+        return;
+      }
+      const task = this.queue.shift() as PoolTask;
+      slot.busy = true;
+      void task.run(slot).finally(() => {
+        slot.busy = false;
+        this.pump();
+      });
+    }
+  }
+
+  private async runVariant(slot: PoolSlot, job: JobState, planIndex: number) {
+    const plan = job.plans[planIndex];
+    job.runningSlots.add(slot);
+    try {
+      this.updateProgress(job, planIndex, { status: 'running' });
+      await withConversionStep('prepare', null, async () => {
+        await this.loadSlot(slot);
+        if (!slot.inputs.has(job.inputName) && job.inputData) {
+          // writeFileは渡したバッファをWorkerへ移譲するため、インスタンスごとに複製して渡す
+          await slot.ffmpeg.writeFile(job.inputName, (await job.inputData).slice());
+          slot.inputs.add(job.inputName);
+        }
+      });
+      // 「最後まで」で曲の長さが分からない場合、仮の長さで割ると進捗がほぼ0%のまま動かなくなる
+      const durationSeconds = hasKnownClipDuration(job.region) ? job.region.duration : null;
+      const variant = await convertVariant(slot.ffmpeg, plan, durationSeconds, (ratio) =>
+        this.updateProgress(job, planIndex, { ratio })
+      );
+      job.results[planIndex] = variant;
+      this.updateProgress(job, planIndex, { status: 'done', ratio: 1 });
+      if (job.plans.every((_, index) => job.results[index])) {
+        this.settleJob(job, null);
+      }
+    } catch (error) {
+      if (!job.settled) {
+        this.updateProgress(job, planIndex, { status: 'error' });
+        this.settleJob(job, error);
+      }
+    } finally {
+      job.runningSlots.delete(slot);
+      // wasm FS内の一時ファイルは徐々に肥大化するため、エラー時でもクリーンアップを徹底してメモリ圧迫を防ぐ
+      if (slot.ffmpeg.loaded) {
+        for (const name of [plan.outputName, plan.pcm?.name]) {
+          if (name) {
+            await slot.ffmpeg.deleteFile(name).catch(() => undefined);
+          }
+        }
+      }
+    }
+  }
+
+  private updateProgress(job: JobState, planIndex: number, patch: Partial<VariantProgress>) {
+    job.progress = job.progress.map((item, index) => (index === planIndex ? { ...item, ...patch } : item));
+    for (const listener of job.listeners) {
+      listener(job.progress);
+    }
+  }
+
+  // 成功・失敗・中止のいずれでも、残りのタスクと各インスタンスに書き込んだ入力ファイルを片付ける
+  private settleJob(job: JobState, error: unknown) {
+    job.settled = true;
+    for (let index = this.queue.length - 1; index >= 0; index -= 1) {
+      if (this.queue[index].job === job) {
+        this.queue.splice(index, 1);
+      }
+    }
+    for (const slot of this.slots) {
+      if (slot.inputs.delete(job.inputName) && slot.ffmpeg.loaded) {
+        slot.ffmpeg.deleteFile(job.inputName).catch(() => undefined);
+      }
+    }
+    job.inputData = null;
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(job.results as ConvertedVariant[]);
+    }
+  }
+
+  // 実行中のインスタンスはterminateで強制終了する。wasm FSごと破棄されるので、次のタスクで起動し直す
+  private cancelJob(job: JobState) {
+    if (job.settled) {
+      return;
+    }
+    for (const slot of job.runningSlots) {
+      slot.ffmpeg.terminate();
+      slot.inputs.clear();
+    }
+    this.settleJob(job, new ConversionCancelledError());
+  }
+}
+
+export const conversionService = new ConversionService();
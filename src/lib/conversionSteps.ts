@@ -0,0 +1,73 @@
+import type { FFmpeg, ProgressEvent } from '@ffmpeg/ffmpeg';
+import { execWithLog } from './loudness';
+import type { ProfileId } from './profiles';
+
+// エラー表示に添えるffmpegログの行数
+const LOG_TAIL_LINES = 15;
+
+export type ConversionStep = 'probe' | 'prepare' | 'encode' | 'decode' | 'loudness' | 'load';
+
+// どのプロファイルのどの工程で失敗したかと、その時点のffmpegログの末尾を保持する
+// 画面に出す文言は、表示言語に合わせてstepとprofileIdから組み立てる
+export class ConversionError extends Error {
+  readonly step: ConversionStep;
+  readonly profileId: ProfileId | null;
+  readonly logTail: string[];
+
+  constructor(step: ConversionStep, profileId: ProfileId | null, logTail: string[], cause?: unknown) {
+    super(`${step} failed${profileId ? ` (${profileId})` : ''}`, { cause });
+    this.name = 'ConversionError';
+    this.step = step;
+    this.profileId = profileId;
+    this.logTail = logTail;
+  }
+}
+
+type StepOptions = {
+  // 出力される音声の長さ(秒)。progressイベントの経過時間から進捗率を求めるのに使う
+  durationSeconds?: number;
+  onProgress?: (ratio: number) => void;
+};
+
+// ffmpeg.execは失敗しても例外を投げず終了コードを返すため、ここで工程名とログ末尾付きの例外に変換する
+export async function runFFmpegStep(
+  ffmpeg: FFmpeg,
+  args: string[],
+  step: ConversionStep,
+  profileId: ProfileId | null,
+  { durationSeconds, onProgress }: StepOptions = {}
+): Promise<string[]> {
+  const handleProgress = ({ time }: ProgressEvent) => {
+    if (durationSeconds && durationSeconds > 0) {
+      // timeはマイクロ秒単位
+      onProgress?.(Math.min(Math.max(time / 1_000_000 / durationSeconds, 0), 1));
+    }
+  };
+  let result: { exitCode: number; lines: string[] };
+  try {
+    result = await execWithLog(ffmpeg, args, handleProgress);
+  } catch (error) {
+    throw new ConversionError(step, profileId, [], error);
+  }
+  if (result.exitCode !== 0) {
+    throw new ConversionError(step, profileId, result.lines.slice(-LOG_TAIL_LINES));
+  }
+  onProgress?.(1);
+  return result.lines;
+}
+
+// ffmpeg.exec以外の処理(FSの読み書きやデコード)で起きた例外にも工程名を付ける
+export async function withConversionStep<T>(
+  step: ConversionStep,
+  profileId: ProfileId | null,
+  task: () => Promise<T>
+): Promise<T> {
+  try {
+    return await task();
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      throw error;
+    }
+    throw new ConversionError(step, profileId, [], error);
+  }
+}
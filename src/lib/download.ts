@@ -0,0 +1,9 @@
+// Blobをファイルとして保存させる。aタグのdownload属性を使い、保存後すぐにURLを解放する
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,34 @@
+// ffmpeg-coreはCDNではなく自前のビルド成果物として配信し、Service Workerでキャッシュできるようにする
+import coreWasmUrl from '@ffmpeg/core/wasm?url';
+import coreJsUrl from '@ffmpeg/core?url';
+import { toBlobURL } from '@ffmpeg/util';
+
+export type CoreDownloadProgress = {
+  received: number;
+  // Content-Lengthが得られない場合は0
+  total: number;
+};
+
+export type CoreURLs = {
+  coreURL: string;
+  wasmURL: string;
+};
+
+// JSとwasmの2ファイルの進捗を合算して、1本のプログレスとして通知する
+// 返すBlob URLは複数のFFmpegインスタンスのloadで使い回せる
+export async function fetchFFmpegCoreURLs(onProgress?: (progress: CoreDownloadProgress) => void): Promise<CoreURLs> {
+  const files: Record<string, CoreDownloadProgress> = {};
+  const report = (url: string, received: number, total: number) => {
+    files[url] = { received, total: Math.max(total, 0) };
+    const values = Object.values(files);
+    onProgress?.({
+      received: values.reduce((sum, item) => sum + item.received, 0),
+      total: values.reduce((sum, item) => sum + item.total, 0)
+    });
+  };
+  const [coreURL, wasmURL] = await Promise.all([
+    toBlobURL(coreJsUrl, 'text/javascript', true, ({ received, total }) => report(coreJsUrl, received, total)),
+    toBlobURL(coreWasmUrl, 'application/wasm', true, ({ received, total }) => report(coreWasmUrl, received, total))
+  ]);
+  return { coreURL, wasmURL };
+}
@@ -0,0 +1,151 @@
+// 採点後に各バリアントの違いを目と耳で確かめるための解析(スペクトログラム・カットオフ推定・差分信号)
+
+export const SPECTROGRAM_FFT_SIZE = 4096;
+// 表示幅に対して十分な時間方向の分解能
+const SPECTROGRAM_COLUMNS = 320;
+// 表示上の最小レベル。これより小さい値は同じ色で塗る
+export const SPECTROGRAM_FLOOR_DB = -120;
+// 平均スペクトルのピークからこの値以上落ちた帯域を「削られている」とみなす
+const CUTOFF_THRESHOLD_DB = 70;
+// 単発の高域ノイズをカットオフと誤認しないよう、この数のビンが続けて閾値を超えた所を上端とする
+const CUTOFF_MIN_RUN_BINS = 4;
+
+export type Spectrogram = {
+  columns: number;
+  bins: number;
+  sampleRate: number;
+  // columns × bins のdB値。columnごとに低い周波数から並ぶ
+  levels: Float32Array;
+};
+
+// 反復型の基数2 FFT。re/imをその場で書き換える
+function fft(re: Float64Array, im: Float64Array) {
+  const size = re.length;
+  for (let i = 1, j = 0; i < size; i += 1) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k += 1) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+export function computeSpectrogram(
+  samples: Float32Array,
+  sampleRate: number,
+  fftSize = SPECTROGRAM_FFT_SIZE,
+  columns = SPECTROGRAM_COLUMNS
+): Spectrogram {
+  const bins = fftSize / 2;
+  const levels = new Float32Array(columns * bins).fill(SPECTROGRAM_FLOOR_DB);
+  const window = new Float64Array(fftSize);
+  for (let i = 0; i < fftSize; i += 1) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+  }
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const hop = Math.max((samples.length - fftSize) / Math.max(columns - 1, 1), 0);
+  // Hann窓のゲイン(0.5)を補正し、フルスケールの正弦波がおよそ0dBになるようにする
+  const scale = 4 / fftSize;
+  for (let column = 0; column < columns; column += 1) {
+    const offset = Math.floor(column * hop);
+    for (let i = 0; i < fftSize; i += 1) {
+      re[i] = (samples[offset + i] ?? 0) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let bin = 0; bin < bins; bin += 1) {
+      const magnitude = Math.hypot(re[bin], im[bin]) * scale;
+      levels[column * bins + bin] = Math.max(20 * Math.log10(magnitude || 1e-12), SPECTROGRAM_FLOOR_DB);
+    }
+  }
+  return { columns, bins, sampleRate, levels };
+}
+
+// 全時間で平均したスペクトルの上端を探し、エンコーダのローパスフィルタの周波数を推定する
+// 上端がナイキスト周波数付近まである場合はnullを返す
+export function estimateCutoffFrequency(spectrogram: Spectrogram): number | null {
+  const { columns, bins, sampleRate, levels } = spectrogram;
+  const average = new Float64Array(bins);
+  for (let column = 0; column < columns; column += 1) {
+    for (let bin = 0; bin < bins; bin += 1) {
+      average[bin] += 10 ** (levels[column * bins + bin] / 10) / columns;
+    }
+  }
+  const averageDb = Array.from(average, (power) => 10 * Math.log10(power || 1e-24));
+  const peakDb = Math.max(...averageDb);
+  const thresholdDb = peakDb - CUTOFF_THRESHOLD_DB;
+  let run = 0;
+  for (let bin = bins - 1; bin >= 0; bin -= 1) {
+    run = averageDb[bin] > thresholdDb ? run + 1 : 0;
+    if (run >= CUTOFF_MIN_RUN_BINS) {
+      const topBin = bin + CUTOFF_MIN_RUN_BINS - 1;
+      if (topBin >= bins * 0.97) {
+        return null;
+      }
+      return ((topBin + 1) * sampleRate) / (bins * 2);
+    }
+  }
+  return null;
+}
+
+// 補正済みのバリアントから基準トラックを引いた差分(ヌルテスト)信号を作る
+export function computeDifference(reference: Float32Array[], target: Float32Array[]): Float32Array[] {
+  return target.map((channel, index) => {
+    const base = reference[Math.min(index, reference.length - 1)];
+    const length = Math.min(base.length, channel.length);
+    const difference = new Float32Array(length);
+    for (let i = 0; i < length; i += 1) {
+      difference[i] = channel[i] - base[i];
+    }
+    return difference;
+  });
+}
+
+function rms(channels: Float32Array[]): number {
+  let sum = 0;
+  let count = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i += 1) {
+      sum += channel[i] * channel[i];
+    }
+    count += channel.length;
+  }
+  return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+// 差分信号が基準に対してどれだけ小さいか(dB)。完全に一致する場合はnull
+export function measureDifferenceDb(reference: Float32Array[], difference: Float32Array[]): number | null {
+  const referenceRms = rms(reference);
+  const differenceRms = rms(difference);
+  if (referenceRms === 0 || differenceRms === 0) {
+    return null;
+  }
+  return 20 * Math.log10(differenceRms / referenceRms);
+}
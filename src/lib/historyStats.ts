@@ -0,0 +1,100 @@
+import type { RoundRating, RoundRecord } from './historyStore';
+import { type ProfileId, getProfile, sortProfileIds } from './profiles';
+
+// この正答率を下回ったプロファイルは「聞き分けられていない」とみなす
+export const DETECTION_ACCURACY_THRESHOLD = 0.5;
+// 解答数が少なすぎるプロファイルは境界の推定に使わない
+const MIN_ANSWERS_FOR_THRESHOLD = 3;
+
+export type DailyAccuracy = {
+  date: string;
+  rounds: number;
+  answers: number;
+  correct: number;
+};
+
+export type ProfileAccuracy = {
+  profileId: ProfileId;
+  answers: number;
+  correct: number;
+};
+
+export type ConfusionMatrix = {
+  profileIds: ProfileId[];
+  // counts[正解][予想] = 回数。未選択はnullキーの代わりに空文字で数える
+  counts: Record<ProfileId, Record<ProfileId, number>>;
+};
+
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function summarizeByDay(rounds: RoundRecord[]): DailyAccuracy[] {
+  const days = new Map<string, DailyAccuracy>();
+  for (const round of [...rounds].sort((a, b) => a.timestamp - b.timestamp)) {
+    const date = toDateKey(round.timestamp);
+    const day = days.get(date) ?? { date, rounds: 0, answers: 0, correct: 0 };
+    day.rounds += 1;
+    day.answers += round.answers.length;
+    day.correct += round.answers.filter((answer) => answer.correct).length;
+    days.set(date, day);
+  }
+  return [...days.values()];
+}
+
+// 解答だけを見るので、履歴に保存していない解答(パスアンドプレイの各プレイヤーなど)も集計できる
+export function summarizeByProfile(rounds: Array<Pick<RoundRecord, 'answers'>>): ProfileAccuracy[] {
+  const totals = new Map<ProfileId, ProfileAccuracy>();
+  for (const round of rounds) {
+    for (const answer of round.answers) {
+      const total = totals.get(answer.truth) ?? { profileId: answer.truth, answers: 0, correct: 0 };
+      total.answers += 1;
+      total.correct += answer.correct ? 1 : 0;
+      totals.set(answer.truth, total);
+    }
+  }
+  return sortProfileIds([...totals.keys()]).map((id) => totals.get(id) as ProfileAccuracy);
+}
+
+export function buildConfusionMatrix(rounds: RoundRecord[]): ConfusionMatrix {
+  const ids = new Set<ProfileId>();
+  const counts: Record<ProfileId, Record<ProfileId, number>> = {};
+  for (const round of rounds) {
+    for (const answer of round.answers) {
+      const guess = answer.guess ?? '';
+      ids.add(answer.truth);
+      if (guess) {
+        ids.add(guess);
+      }
+      counts[answer.truth] ??= {};
+      counts[answer.truth][guess] = (counts[answer.truth][guess] ?? 0) + 1;
+    }
+  }
+  return { profileIds: sortProfileIds([...ids]), counts };
+}
+
+// ビットレートの低い順に見て、正答率が閾値を下回り始めるビットレートを返す
+// それより上のビットレートでは聞き分けられていないと推定できる
+export function estimateDetectionThreshold(profiles: ProfileAccuracy[]): number | null {
+  const candidates = profiles
+    .map((item) => ({ ...item, kbps: getProfile(item.profileId)?.nominalKbps }))
+    .filter((item): item is ProfileAccuracy & { kbps: number } => item.kbps !== undefined)
+    .filter((item) => item.answers >= MIN_ANSWERS_FOR_THRESHOLD)
+    .sort((a, b) => a.kbps - b.kbps);
+  for (const item of candidates) {
+    if (item.correct / item.answers < DETECTION_ACCURACY_THRESHOLD) {
+      return item.kbps;
+    }
+  }
+  return null;
+}
+
+// 事後スクリーニングを通ったMUSHRAラウンドの評価をまとめる
+export function collectReliableRatings(rounds: RoundRecord[]): RoundRating[] {
+  return rounds
+    .filter((round) => round.mode === 'mushra' && round.reliable !== false)
+    .flatMap((round) => round.ratings ?? []);
+}
@@ -0,0 +1,129 @@
+import type { ProfileId } from './profiles';
+import type { ClipRegion } from './quiz';
+
+const DB_NAME = 'audio-quality-quiz';
+const DB_VERSION = 1;
+const ROUND_STORE = 'rounds';
+
+export type RoundMode = 'label' | 'abx' | 'mushra';
+
+export type RoundAnswer = {
+  truth: ProfileId;
+  guess: ProfileId | null;
+  correct: boolean;
+};
+
+// MUSHRAで各バリアントに付けた0〜100の評価。隠しリファレンスはオリジナルのプロファイルとして記録する
+export type RoundRating = {
+  profileId: ProfileId;
+  score: number;
+};
+
+// 採点済みの1ラウンド分の記録。ABXでは1試行を1解答として保存する
+// MUSHRAでは正誤の代わりにratingsを保存し、answersは空にする
+export type RoundRecord = {
+  id: string;
+  timestamp: number;
+  fileName: string;
+  mode: RoundMode;
+  profileIds: ProfileId[];
+  region: ClipRegion;
+  answers: RoundAnswer[];
+  listeningMs: number;
+  ratings?: RoundRating[];
+  // MUSHRAの事後スクリーニングの結果。falseのラウンドは集計から除く
+  reliable?: boolean;
+};
+
+export type HistoryExport = {
+  version: number;
+  exportedAt: number;
+  rounds: RoundRecord[];
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ROUND_STORE)) {
+        const store = db.createObjectStore(ROUND_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// トランザクションの完了まで待ってからDBを閉じ、書き込みが確定したことを呼び出し元に保証する
+async function withStore<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => Promise<T> | T): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(ROUND_STORE, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await callback(transaction.objectStore(ROUND_STORE));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+export function createRoundId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveRound(record: RoundRecord): Promise<void> {
+  await withStore('readwrite', (store) => requestToPromise(store.put(record)));
+}
+
+export async function listRounds(): Promise<RoundRecord[]> {
+  const rounds = await withStore('readonly', (store) => requestToPromise(store.index('timestamp').getAll()));
+  return rounds as RoundRecord[];
+}
+
+export async function exportHistory(): Promise<HistoryExport> {
+  return { version: DB_VERSION, exportedAt: Date.now(), rounds: await listRounds() };
+}
+
+function isRoundRecord(value: unknown): value is RoundRecord {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const record = value as Partial<RoundRecord>;
+  return (
+    typeof record.id === 'string' &&
+    typeof record.timestamp === 'number' &&
+    typeof record.fileName === 'string' &&
+    Array.isArray(record.profileIds) &&
+    Array.isArray(record.answers) &&
+    (record.ratings === undefined || Array.isArray(record.ratings))
+  );
+}
+
+// 同じIDの記録は上書きされるため、同じファイルを何度取り込んでも重複しない
+export async function importHistory(data: unknown): Promise<number> {
+  const rounds = Array.isArray(data) ? data : (data as Partial<HistoryExport> | null)?.rounds;
+  if (!Array.isArray(rounds)) {
+    throw new Error('Invalid history file');
+  }
+  const valid = rounds.filter(isRoundRecord);
+  await withStore('readwrite', async (store) => {
+    for (const round of valid) {
+      await requestToPromise(store.put(round));
+    }
+  });
+  return valid.length;
+}
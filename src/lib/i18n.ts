@@ -0,0 +1,96 @@
+import { en } from './locales/en';
+import { type Messages, ja } from './locales/ja';
+
+export type { Messages };
+
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: Array<{ value: Locale; label: string }> = [
+  { value: 'ja', label: '日本語' },
+  { value: 'en', label: 'English' }
+];
+
+const DEFAULT_LOCALE: Locale = 'ja';
+const STORAGE_KEY = 'audio-quality-quiz:locale';
+
+const CATALOGS: Record<Locale, Messages> = { ja, en };
+
+function isLocale(value: unknown): value is Locale {
+  return value === 'ja' || value === 'en';
+}
+
+// ブラウザの優先言語を順に見て、対応している最初の言語を選ぶ(en-USやja-JPは地域を無視する)
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) {
+      return base;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+// プライベートブラウズなどでlocalStorageが使えない場合は、保存せずにその場の選択だけを使う
+function readStoredLocale(): Locale | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // 保存できなくても表示の切り替えは続ける
+  }
+}
+
+// 表示言語を保持し、切り替えを購読者に知らせる。CLIなどブラウザ以外では既定の日本語のまま使う
+class LocaleStore {
+  private locale: Locale;
+  private readonly listeners = new Set<() => void>();
+
+  constructor() {
+    this.locale =
+      typeof window === 'undefined' ? DEFAULT_LOCALE : (readStoredLocale() ?? detectLocale(navigator.languages));
+    this.applyDocumentLanguage();
+  }
+
+  // useSyncExternalStoreにそのまま渡せるよう、メソッドはインスタンスに束縛しておく
+  getLocale = (): Locale => this.locale;
+
+  setLocale = (locale: Locale) => {
+    if (locale === this.locale) {
+      return;
+    }
+    this.locale = locale;
+    storeLocale(locale);
+    this.applyDocumentLanguage();
+    for (const listener of this.listeners) {
+      listener();
+    }
+  };
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // 読み上げや禁則処理が表示言語に合うよう、html要素のlangも切り替える
+  private applyDocumentLanguage() {
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = this.locale;
+    }
+  }
+}
+
+export const localeStore = new LocaleStore();
+
+export function getMessages(locale: Locale = localeStore.getLocale()): Messages {
+  return CATALOGS[locale];
+}
@@ -0,0 +1,477 @@
+import type { TrackAdjustment } from '../alignment';
+import { createFormatters } from './format';
+import type { Messages } from './ja';
+
+const { number, percent, plural, pValue } = createFormatters('en');
+
+const decimal = (value: number, digits: number, options?: Intl.NumberFormatOptions) =>
+  number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits, ...options });
+
+const seconds = (value: number, digits = 0) =>
+  `${number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits })} s`;
+
+const tracks = (count: number) => `${number(count)} ${plural(count, { one: 'track', other: 'tracks' })}`;
+
+export const en: Messages = {
+  app: {
+    language: 'Language',
+    colorScheme: {
+      light: 'Light',
+      dark: 'Dark',
+      auto: 'Auto'
+    }
+  },
+  about: {
+    title: 'About',
+    description: 'This is the About page.'
+  },
+  notFound: {
+    description: 'The page you are looking for could not be found.',
+    backHome: 'Back to home'
+  },
+  quiz: {
+    title: 'Audio Quality Quiz',
+    subtitle: 'Upload your own music and see whether you can hear the difference in quality!',
+    statsLink: 'View your score history',
+    modes: {
+      label: 'Guess the quality',
+      abx: 'ABX test',
+      mushra: 'MUSHRA'
+    },
+    sourceKinds: {
+      single: 'Single track',
+      playlist: 'Playlist',
+      builtin: 'Test signal'
+    },
+    clipLengthFull: 'To the end',
+    clipLengthMinutes: (minutes: number) => `${number(minutes)} min`,
+    clipLengthSeconds: (seconds: number) => `${number(seconds)} s`,
+    region: (start: string, end: string) => `clip ${start}–${end}`,
+    challenge: {
+      title: 'You have received a challenge',
+      description:
+        'Select the same track as the sender and convert it. The qualities, clip and track order will match the sender’s.',
+      trials: (trials: number) => `${number(trials)} ${plural(trials, { one: 'trial', other: 'trials' })}`,
+      senderScore: (correct: number, total: number) => `Sender’s score: ${number(correct)} of ${number(total)} correct`,
+      shareHint: 'Send anyone who has the same track a quiz with the same order and clip.',
+      copy: 'Copy challenge link',
+      message: (correct: number, total: number, url: string) =>
+        `I got ${number(correct)} of ${number(total)} right in the audio quality quiz. Try it with the same track!\n${url}`
+    },
+    steps: {
+      download: '1. Download FFmpeg',
+      source: '2. Choose your music',
+      profiles: '3. Choose the qualities to compare'
+    },
+    downloaded: 'Downloaded',
+    download: 'Download FFmpeg (about 30 MB)',
+    playlistPlaceholder: 'Choose several tracks',
+    selectFolder: 'Choose folder',
+    playlistDescription: (count: number) =>
+      `${tracks(count)} will be played one after another. The qualities for each track are picked at random from those chosen below.`,
+    filePlaceholder: 'Choose',
+    clipLength: 'Clip length',
+    clipStart: 'Start (seconds)',
+    randomStart: 'Start at a random position',
+    staircase:
+      'Adaptive mode (raises the bitrate after correct answers and lowers it after mistakes to find your limit)',
+    mushra: 'Rate in MUSHRA style (adds a reference and a 3.5 kHz low-pass anchor, scored from 0 to 100)',
+    codec: 'Codec',
+    profilesPlaceholder: (min: number, max: number) => `Choose ${number(min)}–${number(max)}`,
+    strictBlind: 'Strict blind (convert every track, including the original, to the same WAV format)',
+    profilesPerRound: 'Qualities compared per track',
+    startSession: (count: number) => `Start a session of ${tracks(count)}`,
+    startStaircase: 'Start adaptive mode',
+    convert: 'Convert',
+    sessionProgress: (index: number, count: number, fileName: string) =>
+      `Track ${number(index)} of ${number(count)}: ${fileName}`,
+    nextRound: 'Next track',
+    track: (index: number) => `Track ${number(index)}`,
+    answerPlaceholder: '▼ Choose',
+    check: 'Check answers!',
+    keyboard: 'Keyboard shortcuts (?)',
+    answerDescription: 'Guess for the playing track',
+    submitLabel: 'Check answers',
+    notices: {
+      coreLoadFailed: 'Failed to load ffmpeg-core. Please try again later.',
+      loadCoreFirst: 'Load FFmpeg first.',
+      selectFile: 'Choose a track.',
+      acknowledgeSource: 'Please review the warnings about the source.',
+      profileCountRange: (min: number, max: number) =>
+        `Choose between ${number(min)} and ${number(max)} qualities to compare.`,
+      profileCountMin: (min: number) =>
+        `Choose at least ${number(min)} ${plural(min, { one: 'quality', other: 'qualities' })} to compare.`,
+      converted: (region: string) => `Conversion finished. Play the tracks and take your guess! (${region})`,
+      conversionFailed: 'Audio conversion failed. Please try another file.',
+      selectPlaylist: 'Choose tracks or a folder that contains audio files.',
+      convertFirst: 'Convert a track first.',
+      answerAll: 'Choose a guess for every track.',
+      partyPlayers: (min: number, max: number) =>
+        `Pass-and-play needs between ${number(min)} and ${number(max)} player names.`
+    }
+  },
+  player: {
+    play: (label: string) => `Play ${label}`,
+    stop: (label: string) => `Stop ${label}`
+  },
+  playback: {
+    back: (value: number) => `Back ${seconds(value)}`,
+    pause: 'Pause',
+    forward: (value: number) => `Forward ${seconds(value)}`,
+    loop: 'Loop the clip',
+    crossfade: 'Crossfade when switching'
+  },
+  shortcuts: {
+    title: 'Keyboard shortcuts',
+    playTrack: (label: string) => `Switch to ${label} and play`,
+    pause: 'Pause / resume the last track you heard',
+    seek: (value: number) => `Back / forward ${seconds(value)}`,
+    help: 'Open / close this list',
+    focusNote:
+      'Shortcuts are ignored while a text field has focus. When a button or slider has focus, Space, Enter and the arrow keys operate that control.'
+  },
+  conversion: {
+    steps: {
+      probe: 'Analysing the input file',
+      prepare: 'Preparing the input file',
+      encode: 'Encoding',
+      decode: 'Decoding to PCM',
+      loudness: 'Measuring loudness',
+      load: 'Decoding for playback'
+    },
+    failed: (step: string, profile: string | null) => `${step}${profile ? ` for ${profile}` : ''} failed.`,
+    cancelled: 'Conversion cancelled.',
+    cancel: 'Cancel conversion',
+    progress: (ratio: number) => percent(ratio)
+  },
+  waveform: {
+    selection: (start: string, end: string, duration: number) =>
+      `Selected clip: ${start}–${end} (${seconds(duration, 1)})`,
+    dragHint: 'Drag on the waveform to choose the clip'
+  },
+  alignment: {
+    adjustment: ({ loudnessLufs, gainDb, offsetMs }: TrackAdjustment) =>
+      `Loudness ${loudnessLufs !== null ? `${decimal(loudnessLufs, 1)} LUFS` : 'not measurable'} → gain ${decimal(gainDb, 1, { signDisplay: 'always' })} dB / time offset ${decimal(offsetMs, 1)} ms`
+  },
+  abx: {
+    description: 'Compare A and B, then tell whether X, picked at random for every trial, is A or B.',
+    trialCount: 'Trials',
+    start: 'Start the ABX test',
+    errors: {
+      sameProfiles: 'Choose different qualities for A and B.',
+      trialCount: 'Enter a valid number of trials.'
+    },
+    score: (a: string, b: string, correct: number, total: number, p: number) =>
+      `${a} vs ${b}: ${number(correct)} of ${number(total)} ${plural(total, { one: 'trial', other: 'trials' })} correct (${pValue(p)})`,
+    significant: (level: number) => `You can tell them apart at the ${number(level)} significance level.`,
+    notSignificant: 'This cannot be told apart from lucky guessing.',
+    columns: {
+      trial: 'Trial',
+      x: 'X was',
+      answer: 'Your answer',
+      verdict: 'Result',
+      elapsed: 'Time'
+    },
+    elapsed: (value: number) => seconds(value, 1),
+    restart: 'Try again',
+    trialProgress: (index: number, count: number) => `Trial ${number(index)} of ${number(count)}`,
+    answer: (choice: string) => `X is ${choice}`,
+    answerDescription: 'Identify X'
+  },
+  mushra: {
+    description:
+      'Compare each track with the reference (the original) and rate its quality from 0 to 100. The tracks include one identical to the reference (the hidden reference) and an anchor that is degraded on purpose.',
+    reference: 'Reference',
+    unrated: 'Not rated',
+    rateAll: 'Rate every track.',
+    grade: 'Grade',
+    grades: {
+      bad: 'Bad',
+      poor: 'Poor',
+      fair: 'Fair',
+      good: 'Good',
+      excellent: 'Excellent'
+    },
+    reliable: (minScore: number) =>
+      `You rated the hidden reference ${number(minScore)} or higher, so this round counts towards the totals.`,
+    excluded: 'Post-screening leaves this round out of the totals.',
+    reasons: {
+      missingRatings: 'The hidden reference or the anchor has no rating.',
+      referenceTooLow: (minScore: number, score: number) =>
+        `The hidden reference was rated below ${number(minScore)} (${number(score)}).`,
+      anchorAboveReference: (score: number) =>
+        `The anchor was rated as good as or better than the hidden reference (${number(score)}).`
+    },
+    columns: {
+      track: 'Track',
+      profile: 'Quality',
+      score: 'Rating'
+    },
+    hiddenReference: 'Hidden reference',
+    anchor: 'Anchor',
+    history: 'Ratings so far (mean and 95% confidence interval)',
+    summary: (mean: number, interval: [number, number] | null, count: number) =>
+      `${decimal(mean, 1)}${interval ? ` (${number(interval[0], { maximumFractionDigits: 0 })}–${number(interval[1], { maximumFractionDigits: 0 })})` : ''} n=${number(count)}`
+  },
+  documents: {
+    readme: {
+      title: (fileName: string, start: string, end: string) => `Audio quality quiz: ${fileName} (${start}–${end})`,
+      profiles: (labels: string[]) => `Qualities included: ${labels.join(', ')}`,
+      instructions: 'Guess which quality each of track1… is.',
+      answerKey:
+        'To check your answers, open answer-key.html in a browser and enter the passphrase shown when you exported.',
+      sameFormat: 'All files have been converted to the same WAV format.',
+      formatsMayDiffer: 'Strict blind mode was off, so the extension or file size may give the format away.'
+    },
+    answerKey: {
+      title: 'Answers - Audio quality quiz',
+      heading: 'Answers',
+      prompt: 'Enter the passphrase shown when you exported.',
+      open: 'Open',
+      wrongPassphrase: 'Wrong passphrase.'
+    },
+    report: {
+      title: 'Audio quality quiz report',
+      print: 'Print',
+      source: 'Source',
+      unknown: 'Unknown',
+      region: 'Clip',
+      range: (start: string, end: string) => `${start}–${end}`,
+      profiles: 'Qualities compared',
+      strictBlind: ' (strict blind)',
+      score: 'Score',
+      scoreValue: (correct: number, total: number, p: number) =>
+        `${number(correct)} of ${number(total)} correct (${pValue(p)})`,
+      generatedAt: 'Created'
+    },
+    columns: {
+      file: 'File',
+      profile: 'Quality',
+      truth: 'Answer',
+      guess: 'Your guess',
+      judgement: 'Result'
+    }
+  },
+  history: {
+    title: 'Score history',
+    export: 'Export JSON',
+    import: 'Import JSON',
+    loadFailed: 'Could not load the history.',
+    imported: (count: number) => `Imported ${number(count)} ${plural(count, { one: 'round', other: 'rounds' })}.`,
+    importFailed: 'Could not import the history file.',
+    empty: 'No records yet. Rounds are saved once you answer a quiz.',
+    total: (rounds: number, correct: number, answers: number, rate: string) =>
+      `${number(rounds)} ${plural(rounds, { one: 'round', other: 'rounds' })} / ${number(correct)} of ${number(answers)} correct (${rate} accuracy)`,
+    threshold: (kbps: number) => `You stop telling them apart at around ${number(kbps)} kbps and above.`,
+    noThreshold: 'Not enough data yet to estimate the bitrate you stop telling apart.',
+    rate: (correct: number, total: number) => (total > 0 ? percent(correct / total) : '-'),
+    daily: 'Accuracy by day',
+    byProfile: 'Accuracy by quality',
+    mushra: 'MUSHRA ratings (mean and 95% confidence interval, excluding rounds rejected by post-screening)',
+    confusion: 'Confusion matrix (rows: answer / columns: your guess)',
+    recent: 'Recent rounds',
+    excluded: 'Excluded',
+    ratingOnly: 'Ratings only',
+    duration: (value: number) => seconds(value),
+    columns: {
+      date: 'Date',
+      rounds: 'Rounds',
+      rate: 'Accuracy',
+      profile: 'Quality',
+      answers: 'Answers',
+      timestamp: 'Time',
+      track: 'Track',
+      mode: 'Mode',
+      profiles: 'Qualities compared',
+      score: 'Correct',
+      duration: 'Time taken'
+    },
+    back: '← Back to the quiz'
+  },
+  testSignals: {
+    synthesized: 'Synthesized test signals',
+    bundled: 'Bundled recordings',
+    placeholder: 'Choose a signal',
+    loadFailed: (label: string) => `Could not load ${label}.`,
+    signals: {
+      'tone-steps': {
+        label: 'Stepped test tones',
+        description:
+          'Sine tones from 1 kHz to 20 kHz, 1.5 seconds each. Makes it easy to hear which highs a low-pass removes.'
+      },
+      sweep: {
+        label: 'Sweep',
+        description: 'A sine wave rising continuously from 20 Hz to 20 kHz. Listen for where the sound cuts out.'
+      },
+      castanets: {
+        label: 'Castanet-like hits',
+        description: 'Percussive hits with sharp attacks. Lossy codecs tend to smear pre-echo in front of the attack.'
+      },
+      'pink-noise': {
+        label: 'Pink noise',
+        description:
+          'Full-band noise, uncorrelated between left and right. Missing highs and changes in stereo width are easy to hear.'
+      },
+      plucked: {
+        label: 'Plucked arpeggio',
+        description:
+          'A synthesized arpeggio of harpsichord-like decaying notes. Shows how harmonically rich tones break down.'
+      }
+    }
+  },
+  pregenerated: {
+    title: 'Play pre-generated rounds',
+    description: 'Choose a folder made with src/scripts/generateRounds.ts to play without loading FFmpeg.',
+    selectFolder: 'Choose folder',
+    round: (id: string, fileName: string, start: string, end: string) => `${id}: ${fileName} (${start}–${end})`,
+    passphrase: 'Passphrase',
+    play: 'Play',
+    errors: {
+      noManifest: (file: string) => `${file} was not found. Choose the CLI’s output folder.`,
+      unreadableManifest: (file: string) => `Could not read ${file}.`,
+      invalidManifest: (file: string) => `${file} is not in the expected format.`,
+      wrongPassphrase: 'Wrong passphrase.',
+      missingFile: (file: string) => `${file} was not found.`,
+      openFailed: 'Could not open the round.'
+    }
+  },
+  source: {
+    probing: 'Analysing the source…',
+    probeFailed: 'Could not read the source details. You can still try converting it.',
+    noAudio: 'No audio',
+    acknowledge: 'Use this source anyway',
+    issues: {
+      noAudio: 'No audio track was found.',
+      video: 'This is a video file, so only its first audio track is used.',
+      multipleAudio: (count: number) => `The file has ${number(count)} audio tracks, so only the first one is used.`,
+      belowProfiles: (source: string, profiles: string[]) =>
+        `The source (${source}) has a bitrate at or below ${profiles.join(', ')}. Those cannot sound better than the source, so the comparison does not work.`,
+      lossySource: (source: string) =>
+        `The source is already lossy (${source}). Keep in mind that “Original” is not lossless either.`
+    }
+  },
+  staircase: {
+    difficulties: {
+      easy: 'Easy',
+      normal: 'Normal',
+      hard: 'Hard'
+    },
+    title: (ladder: string, steps: number, reversals: number) =>
+      `Adaptive mode (${ladder}) ${number(steps)} ${plural(steps, { one: 'step', other: 'steps' })} / ${number(reversals)} ${plural(reversals, { one: 'reversal', other: 'reversals' })}`,
+    next: (profile: string) => `Next: ${profile}`,
+    threshold: (ladder: string, kbps: number) =>
+      `Your limit for ${ladder} is estimated at around ${number(kbps)} kbps.`,
+    top: (ladder: string) => `You can still tell ${ladder} apart at its highest bitrate.`,
+    noEstimate: 'Not enough reversals for an estimate yet.',
+    finished: (summary: string) => `Adaptive mode is over. ${summary}`,
+    nextStep: 'Next step',
+    end: 'End adaptive mode'
+  },
+  session: {
+    finished: (rounds: number, correct: number, total: number) =>
+      `The session of ${tracks(rounds)} is over. ${number(correct)} of ${number(total)} correct (${percent(total > 0 ? correct / total : 0)} accuracy)`,
+    progress: (done: number, rounds: number, correct: number, total: number) =>
+      `${number(done)} of ${tracks(rounds)} done / ${number(correct)} of ${number(total)} correct so far`,
+    columns: {
+      track: 'Track',
+      score: 'Correct'
+    }
+  },
+  forensics: {
+    title: 'Spectrogram and difference',
+    show: 'Show',
+    hide: 'Close',
+    description: (reference: string) =>
+      `The dotted line is the low-pass frequency estimated from the top of the spectrum. The difference subtracts ${reference}, so you hear only what encoding removed (or added).`,
+    cutoff: (kHz: number) => `Cutoff ≈ ${decimal(kHz, 1)} kHz`,
+    noCutoff: 'No cutoff',
+    axis: (kHz: number) => `Vertical axis 0–${decimal(kHz, 1)} kHz`,
+    difference: 'Difference',
+    differenceLevel: (db: number) => `${decimal(db, 1)} dB`,
+    identical: 'Identical',
+    reference: 'Reference for the difference'
+  },
+  export: {
+    title: 'Export',
+    description:
+      'Packs each track as track1, track2… into a ZIP of WAV files with the same loudness and alignment as during playback, so you can compare them on other headphones or in a DAW. The answers are included, sealed with a passphrase.',
+    package: 'Export ZIP',
+    report: 'Report (JSON)',
+    printable: 'Open printable report',
+    passphrase: 'Answer passphrase:',
+    passphraseHint:
+      'Open answer-key.html in the ZIP and enter it to reveal the answers. This passphrase cannot be shown again.',
+    failed: 'Could not export the ZIP.'
+  },
+  party: {
+    enable: 'Pass-and-play (pass one device around so several players answer the same round in turn)',
+    players: 'Players',
+    playersPlaceholder: (min: number, max: number) => `Type a name and press Enter (${number(min)}–${number(max)})`,
+    firstTurn: (player: string) => `${player} goes first.`,
+    nextTurn: (previous: string, player: string) => `${previous}’s answers are saved. Next up: ${player}.`,
+    handoverHint: 'Everyone else, look away from the screen. The track order changes for each player.',
+    startTurn: (player: string) => `Start ${player}’s turn`,
+    turnProgress: (index: number, count: number) => `Player ${number(index)} of ${number(count)}`,
+    currentTurn: (player: string) => `${player}’s turn`,
+    finished: (count: number) =>
+      `All ${number(count)} ${plural(count, { one: 'player has', other: 'players have' })} answered.`,
+    columns: {
+      rank: 'Rank',
+      player: 'Player',
+      score: 'Correct',
+      listening: 'Listening time',
+      profile: 'Quality',
+      everyone: 'Everyone'
+    },
+    byProfile: 'Correct answers by quality',
+    playAgain: 'Play this round again',
+    end: 'Finish'
+  },
+  results: {
+    score: (correct: number, total: number, p: number) =>
+      `You got ${number(correct)} of ${tracks(total)} right. The chance of doing at least this well by guessing is ${pValue(p)}.`,
+    columns: {
+      track: 'Track',
+      truth: 'Answer',
+      guess: 'Your guess',
+      verdict: 'Result',
+      fileSize: 'File size',
+      bitrate: 'Effective bitrate'
+    },
+    unanswered: 'Not chosen',
+    correct: 'Correct',
+    incorrect: 'Wrong',
+    revealLabels: 'Keep the answers visible while listening again'
+  },
+  profiles: {
+    labels: {
+      anchor_lp3500: '3.5 kHz low-pass',
+      lowpass_11000: '11 kHz low-pass',
+      lowpass_16000: '16 kHz low-pass',
+      clip_6db: '+6 dB clipping',
+      clip_3db: '+3 dB clipping',
+      limit_6db: '+6 dB limiter',
+      mono: 'Mono',
+      stereo_width_50: 'Stereo width 50%',
+      bits_8: '8-bit without dither',
+      bits_8_dither: '8-bit with dither',
+      bits_16: '16-bit without dither',
+      bits_16_dither: '16-bit with dither',
+      original: 'Original'
+    },
+    groups: {
+      anchor: 'Anchor',
+      lowpass: 'Low-pass',
+      clip: 'Clipping',
+      channels: 'Channels',
+      bitDepth: 'Bit depth',
+      sampleRate: 'Sample rate',
+      mp3Cbr: 'mp3 CBR',
+      mp3Vbr: 'mp3 VBR',
+      aac: 'AAC',
+      opus: 'Opus',
+      vorbis: 'Vorbis',
+      lossless: 'Lossless'
+    }
+  }
+};
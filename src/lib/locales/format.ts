@@ -0,0 +1,22 @@
+// 各言語のメッセージから使う、数値の書式と複数形の選択
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// これより小さいp値は桁を並べず不等号で表す
+const MIN_DISPLAYED_P_VALUE = 0.0001;
+
+export function createFormatters(locale: string) {
+  const pluralRules = new Intl.PluralRules(locale);
+  const number = (value: number, options?: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(locale, options).format(value);
+  return {
+    number,
+    plural: (count: number, forms: PluralForms) => forms[pluralRules.select(count)] ?? forms.other,
+    percent: (ratio: number) => number(ratio, { style: 'percent', maximumFractionDigits: 0 }),
+    pValue: (value: number) => {
+      const digits = { minimumFractionDigits: 4, maximumFractionDigits: 4 };
+      return value < MIN_DISPLAYED_P_VALUE
+        ? `p < ${number(MIN_DISPLAYED_P_VALUE, digits)}`
+        : `p = ${number(value, digits)}`;
+    }
+  };
+}
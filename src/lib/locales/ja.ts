@@ -0,0 +1,473 @@
+import type { TrackAdjustment } from '../alignment';
+import type { ProfileGroup, ProfileId } from '../profiles';
+import type { TestSignalId } from '../testSignals';
+import { createFormatters } from './format';
+
+const { number, percent, pValue } = createFormatters('ja');
+
+const decimal = (value: number, digits: number, options?: Intl.NumberFormatOptions) =>
+  number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits, ...options });
+
+const seconds = (value: number, digits = 0) =>
+  `${number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits })}秒`;
+
+// 日本語のメッセージ。文言の原本として、他の言語はこの形に合わせる
+export const ja = {
+  app: {
+    language: '言語',
+    colorScheme: {
+      light: 'ライト',
+      dark: 'ダーク',
+      auto: '自動'
+    }
+  },
+  about: {
+    title: 'Aboutページ',
+    description: 'これはAboutページです。'
+  },
+  notFound: {
+    description: 'お探しのページは見つかりませんでした。',
+    backHome: 'ホームに戻る'
+  },
+  quiz: {
+    title: '音質当てクイズ',
+    subtitle: '自分の楽曲をアップロードして、音質の違いがわかるかチャレンジ！',
+    statsLink: '成績の記録を見る',
+    modes: {
+      label: '音質当て',
+      abx: 'ABXテスト',
+      mushra: 'MUSHRA'
+    },
+    sourceKinds: {
+      single: '1曲',
+      playlist: 'プレイリスト',
+      builtin: 'テスト信号'
+    },
+    clipLengthFull: '最後まで',
+    clipLengthMinutes: (minutes: number) => `${number(minutes)}分`,
+    clipLengthSeconds: (seconds: number) => `${number(seconds)}秒`,
+    region: (start: string, end: string) => `再生区間 ${start}〜${end}`,
+    challenge: {
+      title: 'チャレンジが届いています',
+      description: '送り主と同じ曲を選んで変換してください。音質・再生区間・出題順が送り主と同じになります。',
+      trials: (trials: number) => `${number(trials)}試行`,
+      senderScore: (correct: number, total: number) => `送り主の成績: ${number(total)}問中${number(correct)}問正解`,
+      shareHint: '同じ曲を持っている人に、同じ出題順・同じ区間のクイズを送れます。',
+      copy: 'チャレンジリンクをコピー',
+      // リンクと一緒にコピーする、送り主の成績を添えた文面
+      message: (correct: number, total: number, url: string) =>
+        `音質当てクイズで${number(total)}問中${number(correct)}問正解しました。同じ曲で挑戦してみてください！\n${url}`
+    },
+    steps: {
+      download: '1. FFmpegのダウンロード',
+      source: '2. 楽曲ファイルの選択',
+      profiles: '3. 比較する音質の選択'
+    },
+    downloaded: 'ダウンロード済',
+    download: 'FFmpegをダウンロード(約30MB)',
+    playlistPlaceholder: '複数の曲を選択',
+    selectFolder: 'フォルダを選択',
+    playlistDescription: (count: number) =>
+      `${number(count)}曲を1曲ずつ連続で出題します。比較する音質は下で選んだ中から曲ごとにランダムに選ばれます。`,
+    filePlaceholder: '選択',
+    clipLength: '区間の長さ',
+    clipStart: '開始位置(秒)',
+    randomStart: 'ランダムな位置から出題',
+    staircase: '適応モード(正解が続くとビットレートを上げ、間違えると下げて聞き分けの限界を探す)',
+    mushra: 'MUSHRA形式で評価する(リファレンスと3.5kHzローパスのアンカーを自動で加え、0〜100点で採点する)',
+    codec: 'コーデック',
+    profilesPlaceholder: (min: number, max: number) => `${number(min)}〜${number(max)}個選択`,
+    strictBlind: '厳密ブラインド(オリジナルを含む全トラックを同じ形式のWAVに統一する)',
+    profilesPerRound: '1曲あたりに比較する音質の数',
+    startSession: (count: number) => `${number(count)}曲のセッションを開始`,
+    startStaircase: '適応モードを開始',
+    convert: '変換する',
+    sessionProgress: (index: number, count: number, fileName: string) =>
+      `${number(index)}曲目 / ${number(count)}曲: ${fileName}`,
+    nextRound: '次の曲へ',
+    track: (index: number) => `曲${number(index)}`,
+    answerPlaceholder: '▼選択',
+    check: '解答チェック!',
+    keyboard: 'キーボード操作 (?)',
+    answerDescription: '再生中の曲の予想',
+    submitLabel: '解答チェック',
+    notices: {
+      coreLoadFailed: 'ffmpeg-coreの読み込みに失敗しました。時間をおいて再試行してください。',
+      loadCoreFirst: 'まずはFFmpegを読み込んでください。',
+      selectFile: '楽曲を選択してください。',
+      acknowledgeSource: '音源の注意を確認してください。',
+      profileCountRange: (min: number, max: number) =>
+        `比較する音質は${number(min)}〜${number(max)}個選択してください。`,
+      profileCountMin: (min: number) => `比較する音質は${number(min)}個以上選択してください。`,
+      converted: (region: string) => `変換が完了しました。曲を再生して当ててみよう！(${region})`,
+      conversionFailed: '音声変換に失敗しました。別のファイルでお試しください。',
+      selectPlaylist: '音声ファイルを含む曲かフォルダを選択してください。',
+      convertFirst: 'まずは曲を変換してください。',
+      answerAll: 'すべての曲で予想を選択してください。',
+      partyPlayers: (min: number, max: number) =>
+        `パスアンドプレイでは${number(min)}〜${number(max)}人のプレイヤー名を入力してください。`
+    }
+  },
+  player: {
+    play: (label: string) => `${label}を再生`,
+    stop: (label: string) => `${label}を停止`
+  },
+  playback: {
+    back: (value: number) => `${seconds(value)}戻る`,
+    pause: '一時停止',
+    forward: (value: number) => `${seconds(value)}進む`,
+    loop: '区間をループ再生',
+    crossfade: '切り替え時にクロスフェード'
+  },
+  shortcuts: {
+    title: 'キーボード操作',
+    playTrack: (label: string) => `${label}に切り替えて再生`,
+    pause: '一時停止 / 最後に聞いたトラックを再開',
+    seek: (value: number) => `${seconds(value)}戻る / 進む`,
+    help: 'この一覧を開く / 閉じる',
+    focusNote:
+      '入力欄にフォーカスがある間はキー操作を受け付けません。ボタンやスライダーにフォーカスがある時のSpace・Enter・矢印キーは、その部品の操作になります。'
+  },
+  conversion: {
+    steps: {
+      probe: '入力ファイルの解析',
+      prepare: '入力ファイルの準備',
+      encode: 'エンコード',
+      decode: 'PCMへのデコード',
+      loudness: 'ラウドネス測定',
+      load: '再生用のデコード'
+    },
+    failed: (step: string, profile: string | null) => `${profile ? `${profile}の` : ''}${step}に失敗しました。`,
+    cancelled: '変換を中止しました。',
+    cancel: '変換を中止',
+    progress: (ratio: number) => percent(ratio)
+  },
+  waveform: {
+    selection: (start: string, end: string, duration: number) =>
+      `選択区間: ${start} 〜 ${end} (${seconds(duration, 1)})`,
+    dragHint: '波形をドラッグして区間を選択'
+  },
+  alignment: {
+    adjustment: ({ loudnessLufs, gainDb, offsetMs }: TrackAdjustment) =>
+      `ラウドネス ${loudnessLufs !== null ? `${decimal(loudnessLufs, 1)} LUFS` : '測定不可'} → 補正 ${decimal(gainDb, 1, { signDisplay: 'always' })} dB / 時間補正 ${decimal(offsetMs, 1)} ms`
+  },
+  abx: {
+    description: 'AとBを聞き比べ、毎回ランダムにどちらかが選ばれるXがAとBのどちらかを当てます。',
+    trialCount: '試行回数',
+    start: 'ABXテストを開始',
+    errors: {
+      sameProfiles: 'AとBには異なる音質を選択してください。',
+      trialCount: '試行回数を正しく入力してください。'
+    },
+    score: (a: string, b: string, correct: number, total: number, p: number) =>
+      `${a} vs ${b}: ${number(total)}回中${number(correct)}回正解 (${pValue(p)})`,
+    significant: (level: number) => `有意水準${number(level)}で聞き分けられていると言えます。`,
+    notSignificant: '偶然の正解と区別できません。',
+    columns: {
+      trial: '試行',
+      x: 'Xの正体',
+      answer: '回答',
+      verdict: '判定',
+      elapsed: '所要時間'
+    },
+    elapsed: (value: number) => seconds(value, 1),
+    restart: 'もう一度',
+    trialProgress: (index: number, count: number) => `試行 ${number(index)} / ${number(count)}`,
+    answer: (choice: string) => `Xは${choice}`,
+    answerDescription: 'Xの正体'
+  },
+  mushra: {
+    description:
+      'リファレンス(オリジナル)と聞き比べ、各曲の音質を0〜100点で評価してください。曲の中にはリファレンスと同じもの(隠しリファレンス)と、わざと音質を落としたアンカーが含まれます。',
+    reference: 'リファレンス',
+    unrated: '未評価',
+    rateAll: 'すべての曲を評価してください。',
+    grade: '採点する',
+    grades: {
+      bad: '非常に悪い',
+      poor: '悪い',
+      fair: '普通',
+      good: '良い',
+      excellent: '非常に良い'
+    },
+    reliable: (minScore: number) =>
+      `隠しリファレンスを${number(minScore)}点以上と評価できているため、このラウンドを集計に含めます。`,
+    excluded: '事後スクリーニングにより、このラウンドは集計から除きます。',
+    reasons: {
+      missingRatings: '隠しリファレンスかアンカーの評価がありません。',
+      referenceTooLow: (minScore: number, score: number) =>
+        `隠しリファレンスの評価が${number(minScore)}点未満(${number(score)}点)です。`,
+      anchorAboveReference: (score: number) => `アンカーを隠しリファレンス以上(${number(score)}点)と評価しています。`
+    },
+    columns: {
+      track: '曲',
+      profile: '音質',
+      score: '評価'
+    },
+    hiddenReference: '隠しリファレンス',
+    anchor: 'アンカー',
+    history: 'これまでの評価 (平均と95%信頼区間)',
+    summary: (mean: number, interval: [number, number] | null, count: number) =>
+      `${decimal(mean, 1)}${interval ? ` (${number(interval[0], { maximumFractionDigits: 0 })}〜${number(interval[1], { maximumFractionDigits: 0 })})` : ''} n=${number(count)}`
+  },
+  documents: {
+    readme: {
+      title: (fileName: string, start: string, end: string) => `音質当てクイズ: ${fileName} (${start}〜${end})`,
+      profiles: (labels: string[]) => `含まれる音質: ${labels.join(', ')}`,
+      instructions: 'track1〜の各ファイルがどの音質かを当ててください。',
+      answerKey: '答え合わせは answer-key.html をブラウザで開き、書き出した時に表示された合言葉を入力します。',
+      sameFormat: '全ファイルを同じ形式のWAVに揃えてあります。',
+      formatsMayDiffer: '厳密ブラインドがオフのため、拡張子やファイルサイズから形式が分かる場合があります。'
+    },
+    answerKey: {
+      title: '解答 - 音質当てクイズ',
+      heading: '解答',
+      prompt: '書き出した時に表示された合言葉を入力してください。',
+      open: '開く',
+      wrongPassphrase: '合言葉が違います。'
+    },
+    report: {
+      title: '音質当てクイズ レポート',
+      print: '印刷する',
+      source: '音源',
+      unknown: '不明',
+      region: '区間',
+      range: (start: string, end: string) => `${start}〜${end}`,
+      profiles: '比較した音質',
+      strictBlind: ' (厳密ブラインド)',
+      score: '成績',
+      scoreValue: (correct: number, total: number, p: number) =>
+        `${number(total)}問中${number(correct)}問正解 (${pValue(p)})`,
+      generatedAt: '作成日時'
+    },
+    columns: {
+      file: 'ファイル',
+      profile: '音質',
+      truth: '正解',
+      guess: '回答',
+      judgement: '判定'
+    }
+  },
+  history: {
+    title: '成績の記録',
+    export: 'JSONエクスポート',
+    import: 'JSONインポート',
+    loadFailed: '履歴の読み込みに失敗しました。',
+    imported: (count: number) => `${number(count)}件のラウンドを取り込みました。`,
+    importFailed: '履歴ファイルの取り込みに失敗しました。',
+    empty: 'まだ記録がありません。クイズに解答すると保存されます。',
+    total: (rounds: number, correct: number, answers: number, rate: string) =>
+      `${number(rounds)}ラウンド / ${number(answers)}問中${number(correct)}問正解 (正答率 ${rate})`,
+    threshold: (kbps: number) => `約${number(kbps)}kbps以上になると聞き分けられなくなっています。`,
+    noThreshold: '聞き分けられなくなるビットレートはまだ推定できません。',
+    // 解答が無いときは正答率の代わりに「-」を出す
+    rate: (correct: number, total: number) => (total > 0 ? percent(correct / total) : '-'),
+    daily: '日別の正答率',
+    byProfile: '音質ごとの正答率',
+    mushra: 'MUSHRAの評価 (平均と95%信頼区間、事後スクリーニングで除外したラウンドを除く)',
+    confusion: '混同行列 (行: 正解 / 列: あなたの予想)',
+    recent: '最近のラウンド',
+    excluded: '除外',
+    ratingOnly: '評価のみ',
+    duration: (value: number) => seconds(value),
+    columns: {
+      date: '日付',
+      rounds: 'ラウンド数',
+      rate: '正答率',
+      profile: '音質',
+      answers: '解答数',
+      timestamp: '日時',
+      track: '曲',
+      mode: 'モード',
+      profiles: '比較した音質',
+      score: '正解数',
+      duration: '所要時間'
+    },
+    back: '← クイズに戻る'
+  },
+  testSignals: {
+    synthesized: '合成したテスト信号',
+    bundled: '同梱の音源',
+    placeholder: '信号を選択',
+    loadFailed: (label: string) => `${label}を読み込めませんでした。`,
+    signals: {
+      'tone-steps': {
+        label: '段階的なテストトーン',
+        description: '1kHzから20kHzまでの正弦波を1.5秒ずつ鳴らします。ローパスで消える高域が分かりやすい信号です。'
+      },
+      sweep: {
+        label: 'スイープ',
+        description: '20Hzから20kHzまで周波数が連続的に上がる正弦波です。どこで音が途切れるかに注目してください。'
+      },
+      castanets: {
+        label: 'カスタネット風の打撃音',
+        description: '鋭い立ち上がりの打撃音です。非可逆圧縮ではアタックの前ににじむプリエコーが出やすくなります。'
+      },
+      'pink-noise': {
+        label: 'ピンクノイズ',
+        description: '全帯域に広がった左右無相関のノイズです。高域の欠けやステレオ感の変化が聞き取りやすくなります。'
+      },
+      plucked: {
+        label: '撥弦楽器風のアルペジオ',
+        description: 'ハープシコードのような減衰音を合成したアルペジオです。倍音の多い楽音の崩れ方を確認できます。'
+      }
+    } satisfies Record<TestSignalId, { label: string; description: string }>
+  },
+  pregenerated: {
+    title: '生成済みのラウンドで遊ぶ',
+    description: 'src/scripts/generateRounds.tsで作ったフォルダを選ぶと、FFmpegを読み込まずに出題できます。',
+    selectFolder: 'フォルダを選択',
+    round: (id: string, fileName: string, start: string, end: string) => `${id}: ${fileName} (${start}〜${end})`,
+    passphrase: '合言葉',
+    play: '出題する',
+    errors: {
+      noManifest: (file: string) => `${file}が見つかりません。CLIの出力フォルダを選択してください。`,
+      unreadableManifest: (file: string) => `${file}を読み込めませんでした。`,
+      invalidManifest: (file: string) => `${file}の形式が正しくありません。`,
+      wrongPassphrase: '合言葉が違います。',
+      missingFile: (file: string) => `${file}が見つかりません。`,
+      openFailed: 'ラウンドを開けませんでした。'
+    }
+  },
+  source: {
+    probing: '音源を解析しています…',
+    probeFailed: '音源の情報を読み取れませんでした。変換はそのまま試せます。',
+    noAudio: '音声なし',
+    acknowledge: '承知の上でこの音源を使う',
+    issues: {
+      noAudio: '音声トラックが見つかりません。',
+      video: '動画ファイルのため、最初の音声トラックだけを取り出して使います。',
+      multipleAudio: (count: number) => `音声トラックが${number(count)}本あるため、最初のトラックだけを使います。`,
+      belowProfiles: (source: string, profiles: string[]) =>
+        `元の音源(${source})が${profiles.join('、')}以下のビットレートです。元より良い音にはならないため、比較になりません。`,
+      lossySource: (source: string) =>
+        `元の音源はすでに${source}で非可逆圧縮されています。「オリジナル」もロスレスではない点に注意してください。`
+    }
+  },
+  staircase: {
+    difficulties: {
+      easy: 'やさしい',
+      normal: 'ふつう',
+      hard: 'むずかしい'
+    },
+    title: (ladder: string, steps: number, reversals: number) =>
+      `適応モード (${ladder}) ${number(steps)}ステップ / 反転${number(reversals)}回`,
+    next: (profile: string) => `次: ${profile}`,
+    threshold: (ladder: string, kbps: number) =>
+      `${ladder}では約${number(kbps)}kbps付近が聞き分けの限界と推定されます。`,
+    top: (ladder: string) => `${ladder}の最高ビットレートでも聞き分けられています。`,
+    noEstimate: 'まだ推定に必要な反転がありません。',
+    finished: (summary: string) => `適応モードが終わりました。${summary}`,
+    nextStep: '次のステップへ',
+    end: '適応モードを終了'
+  },
+  session: {
+    finished: (rounds: number, correct: number, total: number) =>
+      `${number(rounds)}曲のセッションが終わりました。${number(total)}問中${number(correct)}問正解 (正答率${percent(total > 0 ? correct / total : 0)})`,
+    progress: (done: number, rounds: number, correct: number, total: number) =>
+      `${number(rounds)}曲中${number(done)}曲終了 / 現在${number(total)}問中${number(correct)}問正解`,
+    columns: {
+      track: '曲',
+      score: '正解数'
+    }
+  },
+  forensics: {
+    title: 'スペクトログラムと差分の確認',
+    show: '表示する',
+    hide: '閉じる',
+    description: (reference: string) =>
+      `点線はスペクトルの上端から推定したローパスの周波数です。差分は${reference}との引き算で、エンコードで失われた(または加わった)成分だけが聞こえます。`,
+    cutoff: (kHz: number) => `カットオフ 約${decimal(kHz, 1)} kHz`,
+    noCutoff: 'カットオフなし',
+    axis: (kHz: number) => `縦軸 0〜${decimal(kHz, 1)} kHz`,
+    difference: '差分',
+    differenceLevel: (db: number) => `${decimal(db, 1)} dB`,
+    identical: '完全に一致',
+    reference: '差分の基準'
+  },
+  export: {
+    title: '書き出し',
+    description:
+      '各曲を track1, track2… の名前で、再生時と同じく音量と頭出しを揃えたWAVにしてZIPにまとめ、別のヘッドホンやDAWで聞き比べられます。解答は合言葉で封をして同梱します。',
+    package: 'ZIPで書き出す',
+    report: 'レポート(JSON)',
+    printable: '印刷用レポートを開く',
+    passphrase: '解答の合言葉:',
+    passphraseHint: 'ZIP内のanswer-key.htmlを開いて入力すると解答が表示されます。この合言葉は再表示できません。',
+    failed: 'ZIPの書き出しに失敗しました。'
+  },
+  party: {
+    enable: 'パスアンドプレイ(1台の端末を回して、複数人が同じラウンドに順番に答える)',
+    players: 'プレイヤー',
+    playersPlaceholder: (min: number, max: number) => `名前を入力してEnter(${number(min)}〜${number(max)}人)`,
+    firstTurn: (player: string) => `最初は${player}さんの番です。`,
+    nextTurn: (previous: string, player: string) => `${previous}さんの解答を記録しました。次は${player}さんの番です。`,
+    handoverHint: 'ほかの人は画面を見ないでください。曲の並び順はプレイヤーごとに変わります。',
+    startTurn: (player: string) => `${player}さんの解答を始める`,
+    turnProgress: (index: number, count: number) => `${number(index)}人目 / ${number(count)}人`,
+    currentTurn: (player: string) => `${player}さんの番`,
+    finished: (count: number) => `${number(count)}人全員が答え終わりました。`,
+    columns: {
+      rank: '順位',
+      player: 'プレイヤー',
+      score: '正解数',
+      listening: '聞いた時間',
+      profile: '音質',
+      everyone: '全体'
+    },
+    byProfile: '音質ごとの正解数',
+    playAgain: '同じラウンドでもう一度',
+    end: '終了'
+  },
+  results: {
+    // p値は、当てずっぽうで並べた場合にこの正解数以上になる確率
+    score: (correct: number, total: number, p: number) =>
+      `${number(total)}問中${number(correct)}問正解でした。偶然この成績以上になる確率は ${pValue(p)} です。`,
+    columns: {
+      track: '曲',
+      truth: '正解',
+      guess: 'あなたの予想',
+      verdict: '判定',
+      fileSize: 'ファイルサイズ',
+      bitrate: '実効ビットレート'
+    },
+    unanswered: '未選択',
+    correct: '正解',
+    incorrect: '不正解',
+    revealLabels: '正解を表示したまま聞き直す'
+  },
+  // 言葉を含むプロファイルの表示名とグループ名。コーデックとビットレートだけの表記は profiles.ts の定義を使う
+  profiles: {
+    labels: {
+      anchor_lp3500: '3.5kHzローパス',
+      lowpass_11000: '11kHzローパス',
+      lowpass_16000: '16kHzローパス',
+      clip_6db: '+6dB クリップ',
+      clip_3db: '+3dB クリップ',
+      limit_6db: '+6dB リミッター',
+      mono: 'モノラル',
+      stereo_width_50: 'ステレオ幅50%',
+      bits_8: '8bit ディザなし',
+      bits_8_dither: '8bit ディザあり',
+      bits_16: '16bit ディザなし',
+      bits_16_dither: '16bit ディザあり',
+      original: 'オリジナル'
+    } as Partial<Record<ProfileId, string>>,
+    groups: {
+      anchor: 'アンカー',
+      lowpass: 'ローパス',
+      clip: 'クリップ',
+      channels: 'チャンネル',
+      bitDepth: '量子化ビット数',
+      sampleRate: 'サンプリング周波数',
+      mp3Cbr: 'mp3 CBR',
+      mp3Vbr: 'mp3 VBR',
+      aac: 'AAC',
+      opus: 'Opus',
+      vorbis: 'Vorbis',
+      lossless: 'ロスレス'
+    } satisfies Record<ProfileGroup, string>
+  }
+};
+
+export type Messages = typeof ja;
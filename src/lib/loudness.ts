@@ -0,0 +1,45 @@
+import type { FFmpeg, LogEvent, ProgressEvent } from '@ffmpeg/ffmpeg';
+
+// ffmpeg.execの実行中に出力されたログ行を集める。解析系のフィルタは結果をログにしか出さないため
+export async function execWithLog(
+  ffmpeg: FFmpeg,
+  args: string[],
+  onProgress?: (event: ProgressEvent) => void
+): Promise<{ exitCode: number; lines: string[] }> {
+  const lines: string[] = [];
+  const handler = ({ message }: LogEvent) => {
+    lines.push(message);
+  };
+  ffmpeg.on('log', handler);
+  if (onProgress) {
+    ffmpeg.on('progress', onProgress);
+  }
+  try {
+    const exitCode = await ffmpeg.exec(args);
+    return { exitCode, lines };
+  } finally {
+    ffmpeg.off('log', handler);
+    if (onProgress) {
+      ffmpeg.off('progress', onProgress);
+    }
+  }
+}
+
+// フレームごとの測定値はverboseに落とし、ログにはSummaryだけが出るようにする
+export function buildLoudnessCommand(inputName: string): string[] {
+  return ['-i', inputName, '-af', 'ebur128=framelog=verbose', '-f', 'null', '-'];
+}
+
+// ebur128フィルタのSummaryに出る「I: -14.3 LUFS」からIntegrated loudnessを取り出す
+// 無音などで測定できなかった場合(-inf)はnullを返す
+export function parseIntegratedLoudness(lines: string[]): number | null {
+  let loudness: number | null = null;
+  for (const line of lines) {
+    const match = line.match(/^\s*I:\s+(-?[\d.]+|-inf)\s+LUFS/);
+    if (match) {
+      const value = Number(match[1]);
+      loudness = Number.isFinite(value) ? value : null;
+    }
+  }
+  return loudness;
+}
@@ -0,0 +1,73 @@
+import type { RoundRating } from './historyStore';
+import { ANCHOR_PROFILE_ID, ORIGINAL_PROFILE_ID, type ProfileId, sortProfileIds } from './profiles';
+import type { QuizTrack } from './quiz';
+import { type MeanInterval, meanConfidenceInterval } from './stats';
+
+// MUSHRA(ITU-R BS.1534)形式の評価。公開されたリファレンスと聞き比べ、隠しリファレンスとアンカーを含む
+// 全バリアントに0〜100の点を付ける
+
+// 隠しリファレンスにこの点未満を付けたラウンドは、聞き分けられていないものとして集計から除く
+export const HIDDEN_REFERENCE_MIN_SCORE = 90;
+
+export type MushraGrade = 'bad' | 'poor' | 'fair' | 'good' | 'excellent';
+
+// スライダーの目盛り。BS.1534の5段階の区分に合わせる。区分の表示名は表示言語のメッセージから引く
+export const MUSHRA_SCALE: Array<{ value: number; grade: MushraGrade }> = [
+  { value: 10, grade: 'bad' },
+  { value: 30, grade: 'poor' },
+  { value: 50, grade: 'fair' },
+  { value: 70, grade: 'good' },
+  { value: 90, grade: 'excellent' }
+];
+
+// 選択した音質に、隠しリファレンス(オリジナル)とアンカーを加える
+export function withMushraProfiles(profileIds: ProfileId[]): ProfileId[] {
+  return sortProfileIds([...profileIds, ORIGINAL_PROFILE_ID, ANCHOR_PROFILE_ID]);
+}
+
+// リファレンスとアンカーの両方がそろい、比べるバリアントが1つ以上あるか
+export function isMushraRound(tracks: QuizTrack[]): boolean {
+  const profileIds = tracks.map((track) => track.profileId);
+  return profileIds.includes(ORIGINAL_PROFILE_ID) && profileIds.includes(ANCHOR_PROFILE_ID) && profileIds.length > 2;
+}
+
+// 除外の理由。画面の文言は表示言語に合わせて組み立てる
+export type MushraScreeningReason =
+  | { code: 'missingRatings' }
+  | { code: 'referenceTooLow'; score: number }
+  | { code: 'anchorAboveReference'; score: number };
+
+export type MushraScreening = {
+  reliable: boolean;
+  reasons: MushraScreeningReason[];
+};
+
+// 事後スクリーニング。隠しリファレンスを見抜けていない、またはアンカーの方を良いと評価したラウンドは信頼できない
+export function screenMushraRatings(ratings: RoundRating[]): MushraScreening {
+  const reference = ratings.find((rating) => rating.profileId === ORIGINAL_PROFILE_ID);
+  const anchor = ratings.find((rating) => rating.profileId === ANCHOR_PROFILE_ID);
+  const reasons: MushraScreeningReason[] = [];
+  if (!reference || !anchor) {
+    reasons.push({ code: 'missingRatings' });
+  } else {
+    if (reference.score < HIDDEN_REFERENCE_MIN_SCORE) {
+      reasons.push({ code: 'referenceTooLow', score: reference.score });
+    }
+    if (anchor.score >= reference.score) {
+      reasons.push({ code: 'anchorAboveReference', score: anchor.score });
+    }
+  }
+  return { reliable: reasons.length === 0, reasons };
+}
+
+export type MushraProfileSummary = MeanInterval & {
+  profileId: ProfileId;
+};
+
+// プロファイルごとの平均点と95%信頼区間。複数ラウンド分の評価をまとめて渡す
+export function summarizeMushraRatings(ratings: RoundRating[]): MushraProfileSummary[] {
+  return sortProfileIds(ratings.map((rating) => rating.profileId)).map((profileId) => ({
+    profileId,
+    ...meanConfidenceInterval(ratings.filter((rating) => rating.profileId === profileId).map((rating) => rating.score))
+  }));
+}
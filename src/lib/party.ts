@@ -0,0 +1,80 @@
+import { type ProfileAccuracy, summarizeByProfile } from './historyStats';
+import type { RoundAnswer } from './historyStore';
+import type { QuizResult } from './quiz';
+
+// 1台の端末を順番に回して、同じラウンドに複数人で答えるパスアンドプレイ
+export const MIN_PARTY_PLAYERS = 2;
+export const MAX_PARTY_PLAYERS = 8;
+
+// 1人分の解答。履歴には保存せず、このセッションのリーダーボードにだけ使う
+export type PartyTurn = {
+  player: string;
+  answers: RoundAnswer[];
+  listeningMs: number;
+};
+
+export type PartyState = {
+  players: string[];
+  // 解答中または次に答えるプレイヤーの番号。players.lengthになったら全員が答え終わっている
+  turn: number;
+  // trueの間は曲と解答を隠し、次のプレイヤーに端末を渡してもらう
+  handover: boolean;
+  // 解答を始めた時刻。聞いていた時間を求めるのに使う
+  turnStartedAt: number;
+  turns: PartyTurn[];
+};
+
+export type LeaderboardEntry = {
+  // 同じ正解数のプレイヤーは同じ順位にする
+  rank: number;
+  player: string;
+  correct: number;
+  total: number;
+  listeningMs: number;
+  byProfile: ProfileAccuracy[];
+};
+
+// 前後の空白を除き、空の名前と重複を取り除く。同じ名前が2人いるとリーダーボードで見分けられないため
+export function normalizePlayerNames(names: string[]): string[] {
+  const normalized = names.map((name) => name.trim()).filter((name) => name.length > 0);
+  return [...new Set(normalized)];
+}
+
+export function createParty(players: string[]): PartyState {
+  return { players, turn: 0, handover: true, turnStartedAt: 0, turns: [] };
+}
+
+export function startPartyTurn(party: PartyState, now = Date.now()): PartyState {
+  return { ...party, handover: false, turnStartedAt: now };
+}
+
+// 採点した解答を今のプレイヤーの分として記録し、次のプレイヤーへの受け渡しに移る
+export function recordPartyTurn(party: PartyState, result: QuizResult, now = Date.now()): PartyState {
+  const turn: PartyTurn = {
+    player: party.players[party.turn],
+    answers: result.rows.map(({ truth, guess, correct }) => ({ truth, guess, correct })),
+    listeningMs: now - party.turnStartedAt
+  };
+  return { ...party, turn: party.turn + 1, handover: true, turns: [...party.turns, turn] };
+}
+
+export function isPartyFinished(party: PartyState): boolean {
+  return party.turn >= party.players.length;
+}
+
+// 正解数の多い順に並べる。同点の場合は聞いていた時間が短いプレイヤーを上に置く
+export function buildLeaderboard(turns: PartyTurn[]): LeaderboardEntry[] {
+  const entries = turns
+    .map((turn) => ({
+      player: turn.player,
+      correct: turn.answers.filter((answer) => answer.correct).length,
+      total: turn.answers.length,
+      listeningMs: turn.listeningMs,
+      byProfile: summarizeByProfile([turn])
+    }))
+    .sort((a, b) => b.correct - a.correct || a.listeningMs - b.listeningMs);
+  return entries.map((entry) => ({
+    ...entry,
+    rank: entries.findIndex((other) => other.correct === entry.correct) + 1
+  }));
+}
@@ -0,0 +1,285 @@
+import { getMessages } from './i18n';
+
+export type EncodingCodec = 'mp3' | 'aac' | 'opus' | 'vorbis' | 'flac' | 'copy';
+
+export type ProfileId = string;
+
+// 選択肢をまとめる単位。表示名は表示言語のメッセージから引く
+export type ProfileGroup =
+  | 'anchor'
+  | 'lowpass'
+  | 'clip'
+  | 'channels'
+  | 'bitDepth'
+  | 'sampleRate'
+  | 'mp3Cbr'
+  | 'mp3Vbr'
+  | 'aac'
+  | 'opus'
+  | 'vorbis'
+  | 'lossless';
+
+// 1つの比較対象(バリアント)をどうエンコードするかを表す定義
+export type EncodingProfile = {
+  id: ProfileId;
+  // コーデック名とビットレートのように言語によらない表記。言葉を含むものは表示言語のメッセージにidで置く
+  label?: string;
+  group: ProfileGroup;
+  codec: EncodingCodec;
+  // CBR/ABR系はビットレート、VBR系は品質値のどちらか一方を持つ
+  bitrateKbps?: number;
+  quality?: number;
+  // VBRも含めた目安のビットレート。聞き分けられる境界をビットレートで比較するために使う
+  nominalKbps?: number;
+  // copyの場合は入力ファイルの拡張子とMIMEを引き継ぐため空にしておく
+  container: string;
+  mime: string;
+  // 入力指定と出力ファイル名を除いたffmpegのコーデック引数
+  args: string[];
+  // 16bit/44.1kHzのPCMに揃えると差が消えてしまう劣化(量子化やサンプリング周波数)。厳密ブラインドでも24bitで比べる
+  highResolution?: boolean;
+};
+
+export const ORIGINAL_PROFILE_ID: ProfileId = 'original';
+// MUSHRAの低品質アンカー。BS.1534に倣い3.5kHzのローパスをかけ、ロスレスのまま書き出す
+export const ANCHOR_PROFILE_ID: ProfileId = 'anchor_lp3500';
+
+export const MIN_ROUND_PROFILES = 2;
+export const MAX_ROUND_PROFILES = 6;
+
+export const DEFAULT_ROUND_PROFILE_IDS: ProfileId[] = ['mp3_128', 'mp3_320', ORIGINAL_PROFILE_ID];
+
+// LAMEのVBRプリセット(-V0〜-V9)とVorbisの品質値に対応する平均的なビットレート
+const MP3_VBR_NOMINAL_KBPS = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+const VORBIS_NOMINAL_KBPS: Record<number, number> = { 2: 96, 4: 128, 6: 192, 8: 256 };
+
+function mp3Cbr(bitrateKbps: number): EncodingProfile {
+  return {
+    id: `mp3_${bitrateKbps}`,
+    label: `mp3 ${bitrateKbps}K`,
+    group: 'mp3Cbr',
+    codec: 'mp3',
+    bitrateKbps,
+    nominalKbps: bitrateKbps,
+    container: 'mp3',
+    mime: 'audio/mpeg',
+    args: ['-c:a', 'libmp3lame', '-b:a', `${bitrateKbps}k`]
+  };
+}
+
+function mp3Vbr(quality: number): EncodingProfile {
+  return {
+    id: `mp3_v${quality}`,
+    label: `mp3 VBR V${quality}`,
+    group: 'mp3Vbr',
+    codec: 'mp3',
+    quality,
+    nominalKbps: MP3_VBR_NOMINAL_KBPS[quality],
+    container: 'mp3',
+    mime: 'audio/mpeg',
+    args: ['-c:a', 'libmp3lame', '-q:a', String(quality)]
+  };
+}
+
+function aac(bitrateKbps: number): EncodingProfile {
+  return {
+    id: `aac_${bitrateKbps}`,
+    label: `AAC ${bitrateKbps}K`,
+    group: 'aac',
+    codec: 'aac',
+    bitrateKbps,
+    nominalKbps: bitrateKbps,
+    container: 'm4a',
+    mime: 'audio/mp4',
+    args: ['-c:a', 'aac', '-b:a', `${bitrateKbps}k`]
+  };
+}
+
+function opus(bitrateKbps: number): EncodingProfile {
+  return {
+    id: `opus_${bitrateKbps}`,
+    label: `Opus ${bitrateKbps}K`,
+    group: 'opus',
+    codec: 'opus',
+    bitrateKbps,
+    nominalKbps: bitrateKbps,
+    container: 'opus',
+    mime: 'audio/ogg',
+    args: ['-c:a', 'libopus', '-b:a', `${bitrateKbps}k`]
+  };
+}
+
+function vorbis(quality: number): EncodingProfile {
+  return {
+    id: `vorbis_q${quality}`,
+    label: `Vorbis q${quality}`,
+    group: 'vorbis',
+    codec: 'vorbis',
+    quality,
+    nominalKbps: VORBIS_NOMINAL_KBPS[quality],
+    container: 'ogg',
+    mime: 'audio/ogg',
+    args: ['-c:a', 'libvorbis', '-q:a', String(quality)]
+  };
+}
+
+// コーデックを通さず、ffmpegのフィルタだけで音を劣化させるバリアント。劣化以外の差が出ないようFLACで書き出す
+function impairment(id: ProfileId, group: ProfileGroup, filters: string, highResolution?: boolean): EncodingProfile {
+  return {
+    id,
+    group,
+    codec: 'flac',
+    container: 'flac',
+    mime: 'audio/flac',
+    args: ['-af', filters, '-c:a', 'flac'],
+    highResolution
+  };
+}
+
+// ブラウザは再生時に端末の周波数へリサンプリングするため、96kHzなどの高い周波数は端末の周波数までしか再生されない
+function resample(sampleRate: number): EncodingProfile {
+  return {
+    ...impairment(`resample_${sampleRate}`, 'sampleRate', `aresample=${sampleRate}`, true),
+    label: `${sampleRate / 1000}kHz`
+  };
+}
+
+// 8bitはflacに書けないため、量子化した後に16bitへ戻して書き出す
+function requantize(bits: 8 | 16, dither: boolean): EncodingProfile {
+  const format = bits === 8 ? 'u8' : 's16';
+  const filters = [
+    `aresample=osf=${format}${dither ? ':dither_method=triangular' : ''}`,
+    ...(bits === 8 ? ['aformat=sample_fmts=s16'] : [])
+  ];
+  return impairment(`bits_${bits}${dither ? '_dither' : ''}`, 'bitDepth', filters.join(','), bits === 16);
+}
+
+function lowpass(frequency: number): EncodingProfile {
+  return impairment(`lowpass_${frequency}`, 'lowpass', `lowpass=f=${frequency}`);
+}
+
+// 音量差はラウドネス補正で打ち消されるため、上げた分がクリップやリミッターでどう歪むかだけが残る
+function clip(gainDb: number, limiter: boolean): EncodingProfile {
+  return impairment(
+    `${limiter ? 'limit' : 'clip'}_${gainDb}db`,
+    'clip',
+    limiter ? `volume=${gainDb}dB,alimiter` : `volume=${gainDb}dB,aformat=sample_fmts=s16`
+  );
+}
+
+export const ENCODING_PROFILES: EncodingProfile[] = [
+  // 最も音質の低いプロファイルとして並ぶよう、アンカーは先頭に置く
+  impairment(ANCHOR_PROFILE_ID, 'anchor', 'lowpass=f=3500'),
+  ...[11000, 16000].map(lowpass),
+  clip(6, false),
+  clip(3, false),
+  clip(6, true),
+  impairment('mono', 'channels', 'aformat=channel_layouts=mono,aformat=channel_layouts=stereo'),
+  impairment('stereo_width_50', 'channels', 'extrastereo=m=0.5'),
+  requantize(8, false),
+  requantize(8, true),
+  requantize(16, false),
+  requantize(16, true),
+  ...[22050, 32000, 44100, 48000, 96000].map(resample),
+  ...[64, 96, 128, 192, 256, 320].map(mp3Cbr),
+  ...[0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(mp3Vbr),
+  ...[96, 128, 192, 256].map(aac),
+  ...[48, 64, 96, 128, 160].map(opus),
+  ...[2, 4, 6, 8].map(vorbis),
+  {
+    id: 'flac',
+    label: 'FLAC',
+    group: 'lossless',
+    codec: 'flac',
+    container: 'flac',
+    mime: 'audio/flac',
+    args: ['-c:a', 'flac']
+  },
+  {
+    id: ORIGINAL_PROFILE_ID,
+    group: 'lossless',
+    codec: 'copy',
+    container: '',
+    mime: '',
+    args: ['-c', 'copy']
+  }
+];
+
+const PROFILE_MAP: Record<ProfileId, EncodingProfile> = Object.fromEntries(
+  ENCODING_PROFILES.map((profile) => [profile.id, profile])
+);
+
+export function getProfile(id: ProfileId): EncodingProfile | undefined {
+  return PROFILE_MAP[id];
+}
+
+// 言葉を含む表示名は表示言語のメッセージから引き、無ければ定義の表記を使う
+export function getProfileLabel(id: ProfileId): string {
+  return getMessages().profiles.labels[id] ?? PROFILE_MAP[id]?.label ?? id;
+}
+
+function getProfileGroupLabel(group: ProfileGroup): string {
+  return getMessages().profiles.groups[group];
+}
+
+// 定義順に並べ直し、選択順に関係なく常にビットレートの低い順で表示されるようにする
+export function sortProfileIds(ids: ProfileId[]): ProfileId[] {
+  return ENCODING_PROFILES.map((profile) => profile.id).filter((id) => ids.includes(id));
+}
+
+// MantineのSelect/MultiSelectにそのまま渡せるグループ付きの選択肢を組み立てる
+export function toProfileSelectData(ids: ProfileId[] = ENCODING_PROFILES.map((profile) => profile.id)) {
+  const groups: Array<{ group: string; items: Array<{ value: string; label: string }> }> = [];
+  for (const profile of ENCODING_PROFILES) {
+    if (!ids.includes(profile.id)) {
+      continue;
+    }
+    const groupLabel = getProfileGroupLabel(profile.group);
+    let group = groups.find((item) => item.group === groupLabel);
+    if (!group) {
+      group = { group: groupLabel, items: [] };
+      groups.push(group);
+    }
+    group.items.push({ value: profile.id, label: getProfileLabel(profile.id) });
+  }
+  return groups;
+}
+
+// 厳密ブラインド時はすべてのバリアントをこの形式のPCMへデコードし直し、コンテナやファイルサイズの差をなくす
+export const STRICT_BLIND_OUTPUT = {
+  extension: 'wav',
+  mime: 'audio/wav',
+  args: ['-map', '0:a:0', '-c:a', 'pcm_s16le', '-ar', '44100']
+};
+
+// 量子化ビット数やサンプリング周波数を比べるラウンドでは、16bit/44.1kHzに揃えると比べたい差まで消えてしまう
+// 一般的な再生端末の周波数である48kHzの24bitに揃える
+export const HIGH_RESOLUTION_STRICT_BLIND_OUTPUT = {
+  ...STRICT_BLIND_OUTPUT,
+  args: ['-map', '0:a:0', '-c:a', 'pcm_s24le', '-ar', '48000']
+};
+
+export function resolveStrictBlindOutput(ids: ProfileId[]): typeof STRICT_BLIND_OUTPUT {
+  return ids.some((id) => PROFILE_MAP[id]?.highResolution) ? HIGH_RESOLUTION_STRICT_BLIND_OUTPUT : STRICT_BLIND_OUTPUT;
+}
+
+// オリジナル(copy)は入力ファイルの形式をそのまま引き継ぐので、出力拡張子とMIMEをここで解決する
+export function resolveProfileOutput(
+  profile: EncodingProfile,
+  originalExtension: string,
+  originalType: string
+): { extension: string; mime: string } {
+  if (profile.codec === 'copy') {
+    return { extension: originalExtension, mime: originalType || 'audio/mpeg' };
+  }
+  return { extension: profile.container, mime: profile.mime };
+}
+
+// 頭出し・音量補正や差分信号の基準にするプロファイル。オリジナルが無い場合は最も高音質なものにする
+export function pickReferenceProfileId(ids: ProfileId[]): ProfileId | undefined {
+  if (ids.includes(ORIGINAL_PROFILE_ID)) {
+    return ORIGINAL_PROFILE_ID;
+  }
+  const sorted = sortProfileIds(ids);
+  return sorted[sorted.length - 1];
+}
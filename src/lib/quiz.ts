@@ -0,0 +1,113 @@
+import type { TrackAdjustment } from './alignment';
+import type { ProfileId } from './profiles';
+
+export type QuizTrack = {
+  id: string;
+  profileId: ProfileId;
+  fileName: string;
+  blob: Blob;
+  // 厳密ブラインドでPCMに戻す前の、エンコード直後のファイルサイズ(バイト)
+  encodedBytes: number;
+  // 再生前に適用したラウドネス・時間補正。結果画面で開示する
+  adjustment?: TrackAdjustment;
+};
+
+// 変換・再生の対象にする区間(秒)
+export type ClipRegion = {
+  start: number;
+  duration: number;
+};
+
+// 変換したラウンドの素性。採点結果を履歴に保存する際に使う
+export type RoundInfo = {
+  fileName: string;
+  region: ClipRegion;
+  startedAt: number;
+  // 出題順を決めた乱数のシード。共有リンクに載せて同じ並びを再現する
+  seed: number;
+  strictBlind: boolean;
+};
+
+// ffmpegの入力側で区間を切り出す引数。-iより前に置き、長い曲でも先頭からデコードし直さないようにする
+export function buildClipInputArgs(region: ClipRegion): string[] {
+  return ['-ss', region.start.toFixed(3), '-t', region.duration.toFixed(3)];
+}
+
+// 区間の長さの選択肢(秒)。nullは開始位置から曲の最後まで
+export const CLIP_LENGTH_OPTIONS: Array<number | null> = [10, 20, 30, 60, 120, null];
+export const DEFAULT_CLIP_SECONDS = 120;
+const MIN_CLIP_SECONDS = 10;
+// 曲の長さが分からないまま「最後まで」を選んだ場合の長さ。-tが曲より長くても末尾で止まる
+const UNKNOWN_DURATION_SECONDS = 24 * 60 * 60;
+
+// 開始位置と長さを曲の中に収める。長さがnullなら開始位置から最後まで
+export function fitClipRegion(start: number, length: number | null, sourceDuration: number | null): ClipRegion {
+  if (sourceDuration === null) {
+    return { start: Math.max(start, 0), duration: length ?? UNKNOWN_DURATION_SECONDS };
+  }
+  const duration = Math.min(length ?? sourceDuration, sourceDuration);
+  // 「最後まで」でも最短の長さは残るように開始位置を抑える
+  const latestStart = length === null ? sourceDuration - MIN_CLIP_SECONDS : sourceDuration - duration;
+  const clampedStart = Math.min(Math.max(start, 0), Math.max(latestStart, 0));
+  return { start: clampedStart, duration: length === null ? sourceDuration - clampedStart : duration };
+}
+
+// 曲の長さが分からないまま「最後まで」を選んだ区間では、実際に何秒になるかが変換するまで分からない
+export function hasKnownClipDuration(region: ClipRegion): boolean {
+  return region.duration < UNKNOWN_DURATION_SECONDS;
+}
+
+// 同じ曲で何度も遊ぶ時に毎回イントロにならないよう、曲の中から開始位置をランダムに選ぶ
+export function pickRandomClipStart(
+  length: number | null,
+  sourceDuration: number | null,
+  random: () => number = Math.random
+): number {
+  if (length === null || sourceDuration === null || sourceDuration <= length) {
+    return 0;
+  }
+  return random() * (sourceDuration - length);
+}
+
+export function formatSeconds(seconds: number): string {
+  const safeSeconds = Math.max(seconds, 0);
+  const minutes = Math.floor(safeSeconds / 60);
+  const rest = Math.floor(safeSeconds % 60);
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+}
+
+export function createTrackId(base: string, profileId: ProfileId): string {
+  return `${base}-${profileId}`;
+}
+
+// Fisher–Yatesで偏りなく並べ替える。シード付きの乱数を渡せば同じ並びを再現できる
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [result[index], result[swapIndex]] = [result[swapIndex], result[index]];
+  }
+  return result;
+}
+
+export type QuizResultRow = {
+  trackId: string;
+  truth: ProfileId;
+  guess: ProfileId | null;
+  correct: boolean;
+};
+
+export type QuizResult = {
+  total: number;
+  correct: number;
+  rows: QuizResultRow[];
+};
+
+// 提示順のトラックと解答を突き合わせて採点する
+export function gradeAnswers(tracks: QuizTrack[], answers: Record<string, ProfileId | null>): QuizResult {
+  const rows = tracks.map((track) => {
+    const guess = answers[track.id] ?? null;
+    return { trackId: track.id, truth: track.profileId, guess, correct: guess === track.profileId };
+  });
+  return { total: rows.length, correct: rows.filter((row) => row.correct).length, rows };
+}
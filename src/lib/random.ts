@@ -0,0 +1,15 @@
+// 共有リンクから同じ出題順を再現できるよう、シードから決定的な乱数列を作る(mulberry32)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
@@ -0,0 +1,96 @@
+import type { ConvertedVariant } from './conversionService';
+import type { ClipRegion } from './quiz';
+import { type SealedAnswerKey, openAnswerKey } from './roundPackage';
+
+// CLI(src/scripts/generateRounds.ts)で事前に変換したラウンドの一覧。ブラウザはこれを読み込めば変換せずに出題できる
+
+export const ROUND_MANIFEST_FILE_NAME = 'manifest.json';
+
+export type ManifestTrack = {
+  // manifest.jsonからの相対パス
+  file: string;
+  mime: string;
+  // 厳密ブラインドでPCMに戻す前の、エンコード直後のファイルサイズ(バイト)
+  encodedBytes: number;
+  loudness: number | null;
+};
+
+// 出題順に並べたトラック。どれがどの音質かは封をした解答にだけ書き、合言葉が無いと分からないようにする
+export type ManifestRound = {
+  id: string;
+  fileName: string;
+  region: ClipRegion;
+  strictBlind: boolean;
+  tracks: ManifestTrack[];
+  answerKey: SealedAnswerKey;
+};
+
+export type RoundManifest = {
+  version: 1;
+  generatedAt: string;
+  rounds: ManifestRound[];
+};
+
+export type RoundManifestErrorCode = 'invalidManifest' | 'wrongPassphrase' | 'missingFile';
+
+// 読み込めなかった理由。画面に出す文言は、表示言語に合わせてcodeとfileから組み立てる
+export class RoundManifestError extends Error {
+  readonly code: RoundManifestErrorCode;
+  readonly file: string | null;
+
+  constructor(code: RoundManifestErrorCode, file: string | null = null, cause?: unknown) {
+    super(`${code}${file ? ` (${file})` : ''}`, { cause });
+    this.name = 'RoundManifestError';
+    this.code = code;
+    this.file = file;
+  }
+}
+
+function isManifestRound(value: unknown): value is ManifestRound {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const round = value as Partial<ManifestRound>;
+  return (
+    typeof round.id === 'string' &&
+    typeof round.fileName === 'string' &&
+    typeof round.region?.start === 'number' &&
+    typeof round.region?.duration === 'number' &&
+    Array.isArray(round.tracks) &&
+    round.tracks.every((track) => typeof track?.file === 'string') &&
+    typeof round.answerKey?.ciphertext === 'string'
+  );
+}
+
+export function parseRoundManifest(data: unknown): RoundManifest {
+  const manifest = data as Partial<RoundManifest> | null;
+  if (manifest?.version !== 1 || !Array.isArray(manifest.rounds) || !manifest.rounds.every(isManifestRound)) {
+    throw new RoundManifestError('invalidManifest', ROUND_MANIFEST_FILE_NAME);
+  }
+  return manifest as RoundManifest;
+}
+
+// 合言葉で解答を開き、各トラックの音質を付けて変換結果と同じ形にする
+export async function openManifestRound(
+  round: ManifestRound,
+  passphrase: string,
+  readFile: (path: string) => Blob | undefined
+): Promise<ConvertedVariant[]> {
+  const key = await openAnswerKey(round.answerKey, passphrase).catch((error: unknown) => {
+    throw new RoundManifestError('wrongPassphrase', null, error);
+  });
+  return round.tracks.map((track, index) => {
+    const blob = readFile(track.file);
+    const profileId = key.tracks[index]?.profileId;
+    if (!blob || !profileId) {
+      throw new RoundManifestError('missingFile', track.file);
+    }
+    return {
+      profileId,
+      fileName: track.file,
+      blob: new Blob([blob], { type: track.mime }),
+      encodedBytes: track.encodedBytes,
+      loudness: track.loudness
+    };
+  });
+}
@@ -0,0 +1,351 @@
+import { getFileExtension } from './conversionPlan';
+import { getMessages, localeStore } from './i18n';
+import { getProfileLabel, sortProfileIds } from './profiles';
+import type { QuizResult, QuizTrack, RoundInfo } from './quiz';
+import { formatSeconds } from './quiz';
+import type { SourceInfo } from './sourceProbe';
+import { permutationPValue } from './stats';
+import { encodeWav } from './wav';
+import { type ZipEntry, createZip } from './zip';
+
+// 別の再生環境(ヘッドホンやDAW)で聞き比べられるよう、ラウンドの変換結果を書き出す
+
+// PBKDF2の反復回数。封をした解答は手元で総当たりされ得るため、ある程度重くしておく
+const SEAL_ITERATIONS = 200_000;
+// 合言葉に使う文字。0/O、1/Iのように見間違えやすい文字は除く
+const PASSPHRASE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// 書き出したファイルと音質の対応。ファイル名は出題順の中立な名前にする
+export type AnswerKey = {
+  fileName: string;
+  region: RoundInfo['region'];
+  strictBlind: boolean;
+  tracks: Array<{ file: string; profileId: string; label: string }>;
+};
+
+// 合言葉が無いと読めないように暗号化した解答。answer-key.htmlがこれを読み込んで復号する
+export type SealedAnswerKey = {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+// 合言葉から暗号鍵を導く。入力の揺れを吸収するため、前後の空白を除いて大文字に揃える
+async function deriveSealKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase.trim().toUpperCase()),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+export function createPassphrase(): string {
+  const values = crypto.getRandomValues(new Uint8Array(12));
+  const characters = Array.from(values, (value) => PASSPHRASE_ALPHABET[value % PASSPHRASE_ALPHABET.length]);
+  return [0, 4, 8].map((start) => characters.slice(start, start + 4).join('')).join('-');
+}
+
+export async function sealAnswerKey(key: AnswerKey, passphrase: string): Promise<SealedAnswerKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const aesKey = await deriveSealKey(passphrase, salt, SEAL_ITERATIONS, 'encrypt');
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    aesKey,
+    new TextEncoder().encode(JSON.stringify(key))
+  );
+  return {
+    version: 1,
+    iterations: SEAL_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+// 合言葉が違う場合はAES-GCMの検証に失敗するので、その旨のエラーにする
+export async function openAnswerKey(sealed: SealedAnswerKey, passphrase: string): Promise<AnswerKey> {
+  try {
+    const aesKey = await deriveSealKey(passphrase, fromBase64(sealed.salt), sealed.iterations, 'decrypt');
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+      aesKey,
+      fromBase64(sealed.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plain)) as AnswerKey;
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+}
+
+// ブラウザで開き、合言葉を入れると解答を表示する自己完結したページ。アプリが無い環境でも答え合わせできる
+// 書き出したファイルの文言は、書き出した時の表示言語にする
+function buildAnswerKeyPage(sealed: SealedAnswerKey): string {
+  const locale = localeStore.getLocale();
+  const t = getMessages(locale);
+  const header = `<tr><th>${escapeHtml(t.documents.columns.file)}</th><th>${escapeHtml(t.documents.columns.profile)}</th></tr>`;
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t.documents.answerKey.title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 640px; margin: 2rem auto; padding: 0 1rem; }
+table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+td, th { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(t.documents.answerKey.heading)}</h1>
+<p>${escapeHtml(t.documents.answerKey.prompt)}</p>
+<form id="form"><input id="passphrase" autocomplete="off"> <button>${escapeHtml(t.documents.answerKey.open)}</button></form>
+<p id="message"></p>
+<div id="result"></div>
+<script>
+const sealed = ${JSON.stringify(sealed)};
+const fromBase64 = (text) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+const escape = (text) => String(text).replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]);
+document.getElementById('form').addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const message = document.getElementById('message');
+  try {
+    const encoder = new TextEncoder();
+    const material = await crypto.subtle.importKey('raw', encoder.encode(document.getElementById('passphrase').value.trim().toUpperCase()), 'PBKDF2', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey({ name: 'PBKDF2', salt: fromBase64(sealed.salt), iterations: sealed.iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['decrypt']);
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.ciphertext));
+    const answer = JSON.parse(new TextDecoder().decode(plain));
+    message.textContent = answer.fileName;
+    document.getElementById('result').innerHTML = '<table>' + ${JSON.stringify(header)} + answer.tracks.map((track) => '<tr><td>' + escape(track.file) + '</td><td>' + escape(track.label) + '</td></tr>').join('') + '</table>';
+  } catch {
+    message.textContent = ${JSON.stringify(t.documents.answerKey.wrongPassphrase)};
+  }
+});
+</script>
+</body>
+</html>
+`;
+}
+
+// 出題順どおりに track1, track2... と名付ける。拡張子は変換結果のものを引き継ぐ
+export function getNeutralTrackName(track: Pick<QuizTrack, 'fileName'>, index: number): string {
+  return `track${index + 1}.${getFileExtension(track.fileName)}`;
+}
+
+export type RoundPackage = {
+  blob: Blob;
+  fileName: string;
+  passphrase: string;
+};
+
+// 書き出すトラックに必要な項目。CLIで作ったラウンドも同じ形で書き出す
+export type PackageTrack = Pick<QuizTrack, 'fileName' | 'profileId' | 'blob'>;
+
+// ブラウザからは、変換結果そのものではなく再生時と同じく音量と頭出しを揃えた音を書き出す。
+// 16bitにすると高解像度の音質との差が丸めで消えるため24bitにする
+const HEARD_TRACK_FILE_NAME = 'heard.wav';
+
+export function renderHeardTrack(track: Pick<QuizTrack, 'profileId'>, buffer: AudioBuffer): PackageTrack {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  return {
+    fileName: HEARD_TRACK_FILE_NAME,
+    profileId: track.profileId,
+    blob: new Blob([encodeWav(channels, buffer.sampleRate, 24)], { type: 'audio/wav' })
+  };
+}
+
+export type PackageRoundInfo = Pick<RoundInfo, 'fileName' | 'region' | 'strictBlind'>;
+
+// 中立な名前のトラック、封をした解答とその読み方を、ZIPやフォルダにそのまま書けるエントリーにする
+export async function buildRoundPackageEntries(
+  tracks: PackageTrack[],
+  roundInfo: PackageRoundInfo,
+  passphrase: string
+): Promise<{ entries: ZipEntry[]; sealed: SealedAnswerKey }> {
+  const encoder = new TextEncoder();
+  const key: AnswerKey = {
+    fileName: roundInfo.fileName,
+    region: roundInfo.region,
+    strictBlind: roundInfo.strictBlind,
+    tracks: tracks.map((track, index) => ({
+      file: getNeutralTrackName(track, index),
+      profileId: track.profileId,
+      label: getProfileLabel(track.profileId)
+    }))
+  };
+  const sealed = await sealAnswerKey(key, passphrase);
+  const { readme: t } = getMessages().documents;
+  const readme = [
+    t.title(
+      roundInfo.fileName,
+      formatSeconds(roundInfo.region.start),
+      formatSeconds(roundInfo.region.start + roundInfo.region.duration)
+    ),
+    '',
+    t.profiles(sortProfileIds(tracks.map((track) => track.profileId)).map(getProfileLabel)),
+    t.instructions,
+    t.answerKey,
+    tracks.every((track) => getFileExtension(track.fileName) === 'wav') ? t.sameFormat : t.formatsMayDiffer,
+    ''
+  ].join('\n');
+  const entries = [
+    ...(await Promise.all(
+      tracks.map(async (track, index) => ({
+        name: getNeutralTrackName(track, index),
+        data: new Uint8Array(await track.blob.arrayBuffer())
+      }))
+    )),
+    { name: 'answer-key.sealed.json', data: encoder.encode(JSON.stringify(sealed, null, 2)) },
+    { name: 'answer-key.html', data: encoder.encode(buildAnswerKeyPage(sealed)) },
+    { name: 'README.txt', data: encoder.encode(readme) }
+  ];
+  return { entries, sealed };
+}
+
+export async function buildRoundPackage(tracks: PackageTrack[], roundInfo: RoundInfo): Promise<RoundPackage> {
+  const passphrase = createPassphrase();
+  const { entries } = await buildRoundPackageEntries(tracks, roundInfo, passphrase);
+  return {
+    blob: createZip(entries),
+    fileName: `audio-quality-quiz-round-${new Date().toISOString().slice(0, 10)}.zip`,
+    passphrase
+  };
+}
+
+// 採点後のレポート。JSONとして保存し、同じ内容を印刷用のHTMLにもする
+export type RoundReport = {
+  generatedAt: string;
+  source: { fileName: string; info: SourceInfo | null };
+  region: RoundInfo['region'];
+  strictBlind: boolean;
+  profiles: Array<{ id: string; label: string }>;
+  answers: Array<{
+    file: string;
+    truth: string;
+    truthLabel: string;
+    guess: string | null;
+    guessLabel: string | null;
+    correct: boolean;
+    encodedBytes: number;
+  }>;
+  score: { correct: number; total: number };
+  // 当てずっぽうで並べた場合に、この正解数以上になる確率。各音質は1回ずつ使うので曲ごとの正誤は独立ではなく、並べ替えで数える
+  pValue: number;
+};
+
+export function buildRoundReport(
+  tracks: QuizTrack[],
+  result: QuizResult,
+  roundInfo: RoundInfo,
+  sourceInfo: SourceInfo | null
+): RoundReport {
+  const profileIds = sortProfileIds(tracks.map((track) => track.profileId));
+  return {
+    generatedAt: new Date().toISOString(),
+    source: { fileName: roundInfo.fileName, info: sourceInfo },
+    region: roundInfo.region,
+    strictBlind: roundInfo.strictBlind,
+    profiles: profileIds.map((id) => ({ id, label: getProfileLabel(id) })),
+    answers: result.rows.map((row, index) => ({
+      file: getNeutralTrackName({ fileName: HEARD_TRACK_FILE_NAME }, index),
+      truth: row.truth,
+      truthLabel: getProfileLabel(row.truth),
+      guess: row.guess,
+      guessLabel: row.guess ? getProfileLabel(row.guess) : null,
+      correct: row.correct,
+      encodedBytes: tracks[index].encodedBytes
+    })),
+    score: { correct: result.correct, total: result.total },
+    pValue: permutationPValue(
+      result.rows.map((row) => row.truth),
+      result.rows.map((row) => row.guess)
+    )
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] ?? char);
+}
+
+// 印刷してそのまま記録に残せる体裁のレポート
+export function buildReportHtml(report: RoundReport): string {
+  const locale = localeStore.getLocale();
+  const t = getMessages(locale);
+  const info = report.source.info;
+  const sourceDetails = info
+    ? [
+        info.codec ?? t.source.noAudio,
+        info.sampleRate !== null ? `${info.sampleRate} Hz` : null,
+        info.bitDepth !== null ? `${info.bitDepth} bit` : null,
+        info.channels !== null ? `${info.channels} ch` : null,
+        info.bitrateKbps !== null ? `${info.bitrateKbps} kbps` : null
+      ]
+        .filter((detail) => detail)
+        .join(' / ')
+    : t.documents.report.unknown;
+  const rows = report.answers
+    .map(
+      (answer) =>
+        `<tr><td>${escapeHtml(answer.file)}</td><td>${escapeHtml(answer.truthLabel)}</td><td>${escapeHtml(
+          answer.guessLabel ?? '-'
+        )}</td><td>${answer.correct ? '○' : '×'}</td></tr>`
+    )
+    .join('');
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t.documents.report.title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+td, th { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; }
+dt { font-weight: bold; }
+@media print { button { display: none; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(t.documents.report.title)}</h1>
+<button onclick="window.print()">${escapeHtml(t.documents.report.print)}</button>
+<dl>
+<dt>${escapeHtml(t.documents.report.source)}</dt><dd>${escapeHtml(report.source.fileName)} (${escapeHtml(sourceDetails)})</dd>
+<dt>${escapeHtml(t.documents.report.region)}</dt><dd>${escapeHtml(t.documents.report.range(formatSeconds(report.region.start), formatSeconds(report.region.start + report.region.duration)))}</dd>
+<dt>${escapeHtml(t.documents.report.profiles)}</dt><dd>${escapeHtml(report.profiles.map((profile) => profile.label).join(', '))}${report.strictBlind ? escapeHtml(t.documents.report.strictBlind) : ''}</dd>
+<dt>${escapeHtml(t.documents.report.score)}</dt><dd>${escapeHtml(t.documents.report.scoreValue(report.score.correct, report.score.total, report.pValue))}</dd>
+<dt>${escapeHtml(t.documents.report.generatedAt)}</dt><dd>${escapeHtml(new Date(report.generatedAt).toLocaleString(locale))}</dd>
+</dl>
+<table>
+<tr><th>${escapeHtml(t.documents.columns.file)}</th><th>${escapeHtml(t.documents.columns.truth)}</th><th>${escapeHtml(t.documents.columns.guess)}</th><th>${escapeHtml(t.documents.columns.judgement)}</th></tr>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,48 @@
+import { type ProfileId, sortProfileIds } from './profiles';
+import { shuffle } from './quiz';
+
+// 再生中のラウンドより先に変換しておくラウンド数。変換結果のBlobはこの数までしかメモリに保持しない
+export const SESSION_LOOKAHEAD_ROUNDS = 2;
+
+// フォルダを選んだ場合に、画像や歌詞ファイルなどを除外するための拡張子
+const AUDIO_EXTENSIONS = ['wav', 'flac', 'mp3', 'm4a', 'aac', 'ogg', 'opus', 'aif', 'aiff', 'wma', 'ape', 'wv'];
+
+// 連続して遊ぶ1曲分のラウンド。比較する音質はラウンドごとにプールから選び直す
+export type SessionRound = {
+  file: File;
+  profileIds: ProfileId[];
+};
+
+export type SessionRoundScore = {
+  fileName: string;
+  correct: number;
+  total: number;
+};
+
+export function isAudioFileName(name: string): boolean {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 && AUDIO_EXTENSIONS.includes(name.slice(dotIndex + 1).toLowerCase());
+}
+
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/') || isAudioFileName(file.name);
+}
+
+// フォルダ内の並び順で遊べるよう、相対パスで並べ替えてから音声ファイルだけを残す
+export function collectAudioFiles(files: File[]): File[] {
+  return files
+    .filter(isAudioFile)
+    .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+}
+
+export function planSessionRounds(files: File[], pool: ProfileId[], profilesPerRound: number): SessionRound[] {
+  const count = Math.min(Math.max(profilesPerRound, 1), pool.length);
+  return files.map((file) => ({ file, profileIds: sortProfileIds(shuffle(pool).slice(0, count)) }));
+}
+
+export function summarizeSession(scores: SessionRoundScore[]): { correct: number; total: number } {
+  return {
+    correct: scores.reduce((sum, score) => sum + score.correct, 0),
+    total: scores.reduce((sum, score) => sum + score.total, 0)
+  };
+}
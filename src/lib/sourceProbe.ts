@@ -0,0 +1,140 @@
+import { type Messages, getMessages } from './i18n';
+import { type ProfileId, getProfile, getProfileLabel, sortProfileIds } from './profiles';
+
+// 変換前にffprobeで調べた入力ファイルの中身。オリジナルとして出題してよい音源かを判断するために使う
+export type SourceInfo = {
+  formatName: string;
+  // 最初の音声トラックのコーデック。音声トラックが無い場合はnull
+  codec: string | null;
+  lossless: boolean;
+  sampleRate: number | null;
+  bitDepth: number | null;
+  channels: number | null;
+  bitrateKbps: number | null;
+  durationSeconds: number | null;
+  audioStreamCount: number;
+  hasVideo: boolean;
+};
+
+// blockは変換前に確認を求め、warning/infoは表示のみ。sourceは「コーデック ビットレート」の表記
+export type SourceIssue =
+  | { level: 'block'; code: 'noAudio' }
+  | { level: 'info'; code: 'video' }
+  | { level: 'info'; code: 'multipleAudio'; streamCount: number }
+  | { level: 'block'; code: 'belowProfiles'; source: string; profileIds: ProfileId[] }
+  | { level: 'warning'; code: 'lossySource'; source: string };
+
+// ffprobeに渡す引数。入力名と出力先のJSONファイル名を受け取る
+export function buildProbeCommand(inputName: string, outputName: string): string[] {
+  return ['-v', 'error', '-show_format', '-show_streams', '-of', 'json', inputName, '-o', outputName];
+}
+
+const LOSSLESS_CODECS = ['flac', 'alac', 'wavpack', 'ape', 'tta', 'mlp', 'truehd', 'wmalossless', 'shorten', 'tak'];
+
+function isLosslessCodec(codec: string): boolean {
+  return codec.startsWith('pcm_') || LOSSLESS_CODECS.includes(codec);
+}
+
+type ProbeStream = {
+  codec_type?: string;
+  codec_name?: string;
+  sample_rate?: string;
+  channels?: number;
+  bit_rate?: string;
+  bits_per_raw_sample?: string;
+  bits_per_sample?: number;
+  duration?: string;
+  disposition?: { attached_pic?: number };
+};
+
+type ProbeOutput = {
+  streams?: ProbeStream[];
+  format?: { format_name?: string; duration?: string; bit_rate?: string };
+};
+
+function toNumber(value: string | number | undefined): number | null {
+  const number = Number(value);
+  return value !== undefined && Number.isFinite(number) && number > 0 ? number : null;
+}
+
+// ffprobeの-of jsonの出力を読み取る。ジャケット画像はvideoストリームとして出てくるので動画扱いしない
+export function parseProbeOutput(json: string): SourceInfo {
+  const output = JSON.parse(json) as ProbeOutput;
+  const streams = output.streams ?? [];
+  const audioStreams = streams.filter((stream) => stream.codec_type === 'audio');
+  const audio = audioStreams[0];
+  const codec = audio?.codec_name ?? null;
+  const lossless = codec !== null && isLosslessCodec(codec);
+  const sampleRate = toNumber(audio?.sample_rate);
+  const channels = toNumber(audio?.channels);
+  const bitDepth = toNumber(audio?.bits_per_raw_sample) ?? toNumber(audio?.bits_per_sample);
+  // WAVなどはストリームにビットレートが無いことがあるため、PCMはパラメータから求める
+  const streamBitrate = toNumber(audio?.bit_rate);
+  const pcmBitrate =
+    codec?.startsWith('pcm_') && sampleRate && channels && bitDepth ? sampleRate * channels * bitDepth : null;
+  // コンテナ全体のビットレートは動画を含むため、音声だけのファイルの場合に限って使う
+  const hasVideo = streams.some((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+  const formatBitrate = !hasVideo && audioStreams.length === 1 ? toNumber(output.format?.bit_rate) : null;
+  const bitrate = streamBitrate ?? pcmBitrate ?? formatBitrate;
+  return {
+    formatName: output.format?.format_name ?? '',
+    codec,
+    lossless,
+    sampleRate,
+    bitDepth,
+    channels,
+    bitrateKbps: bitrate !== null ? Math.round(bitrate / 1000) : null,
+    durationSeconds: toNumber(output.format?.duration) ?? toNumber(audio?.duration),
+    audioStreamCount: audioStreams.length,
+    hasVideo
+  };
+}
+
+// 音源がすでに非可逆圧縮されていたり、比較する音質より低いビットレートだったりすると、クイズとして成り立たない
+export function assessSource(info: SourceInfo, profileIds: ProfileId[]): SourceIssue[] {
+  if (!info.codec) {
+    return [{ level: 'block', code: 'noAudio' }];
+  }
+  const issues: SourceIssue[] = [];
+  if (info.hasVideo || info.audioStreamCount > 1) {
+    issues.push(
+      info.hasVideo
+        ? { level: 'info', code: 'video' }
+        : { level: 'info', code: 'multipleAudio', streamCount: info.audioStreamCount }
+    );
+  }
+  if (!info.lossless) {
+    const bitrate = info.bitrateKbps;
+    // 元の音源以上のビットレートのプロファイルは、元より良い音になり得ないので比較が崩れる
+    const exceeding =
+      bitrate !== null
+        ? sortProfileIds(profileIds).filter((id) => {
+            const nominal = getProfile(id)?.nominalKbps;
+            return nominal !== undefined && nominal >= bitrate;
+          })
+        : [];
+    const source = `${info.codec}${bitrate !== null ? ` ${bitrate}kbps` : ''}`;
+    issues.push(
+      exceeding.length > 0
+        ? { level: 'block', code: 'belowProfiles', source, profileIds: exceeding }
+        : { level: 'warning', code: 'lossySource', source }
+    );
+  }
+  return issues;
+}
+
+// 画面やCLIに出す文言にする。画面では表示中の言語のメッセージを渡す
+export function describeSourceIssue(issue: SourceIssue, t: Messages = getMessages()): string {
+  switch (issue.code) {
+    case 'noAudio':
+      return t.source.issues.noAudio;
+    case 'video':
+      return t.source.issues.video;
+    case 'multipleAudio':
+      return t.source.issues.multipleAudio(issue.streamCount);
+    case 'belowProfiles':
+      return t.source.issues.belowProfiles(issue.source, issue.profileIds.map(getProfileLabel));
+    case 'lossySource':
+      return t.source.issues.lossySource(issue.source);
+  }
+}
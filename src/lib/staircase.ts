@@ -0,0 +1,124 @@
+import { type ProfileId, getProfile } from './profiles';
+
+// 聴取実験で使われる階段法(2-down 1-up)で、聞き分けられる限界のビットレートを探す
+// 2回続けて正解したら1段高いビットレート(難しい)へ、1回でも間違えたら1段低いビットレート(易しい)へ動かす
+// この規則では正答率がおよそ70.7%になる段の付近を往復する
+
+// 同じコーデックのプロファイルをビットレートの低い順に並べた段
+export type StaircaseLadder = {
+  id: string;
+  label: string;
+  profileIds: ProfileId[];
+};
+
+export const STAIRCASE_LADDERS: StaircaseLadder[] = [
+  { id: 'mp3_cbr', label: 'mp3 CBR', profileIds: ['mp3_64', 'mp3_96', 'mp3_128', 'mp3_192', 'mp3_256', 'mp3_320'] },
+  {
+    id: 'mp3_vbr',
+    label: 'mp3 VBR',
+    profileIds: ['mp3_v9', 'mp3_v7', 'mp3_v5', 'mp3_v4', 'mp3_v2', 'mp3_v1', 'mp3_v0']
+  },
+  { id: 'aac', label: 'AAC', profileIds: ['aac_96', 'aac_128', 'aac_192', 'aac_256'] },
+  { id: 'opus', label: 'Opus', profileIds: ['opus_48', 'opus_64', 'opus_96', 'opus_128', 'opus_160'] }
+];
+
+export type StaircaseDifficulty = 'easy' | 'normal' | 'hard';
+
+// 難易度は開始する段の位置(0が最低ビットレート、1が最高ビットレート)で表す。表示名は表示言語のメッセージから引く
+export const STAIRCASE_DIFFICULTIES: Array<{ value: StaircaseDifficulty; startRatio: number }> = [
+  { value: 'easy', startRatio: 0 },
+  { value: 'normal', startRatio: 0.4 },
+  { value: 'hard', startRatio: 1 }
+];
+
+// 反転がこの回数に達するか、試行がこの回数に達したら終了する
+const MAX_REVERSALS = 8;
+const MAX_TRIALS = 30;
+// 最初の数回の反転は開始位置の影響が大きいため、閾値の推定から除く
+const DISCARDED_REVERSALS = 2;
+
+export type StaircaseTrial = {
+  level: number;
+  profileId: ProfileId;
+  correct: boolean;
+};
+
+export type Staircase = {
+  ladder: StaircaseLadder;
+  // 次に出題する段
+  level: number;
+  trials: StaircaseTrial[];
+  // 現在の段での連続正解数
+  streak: number;
+  // 直前に動いた向き。1は難しくした、-1は易しくした、0はまだ動いていない
+  direction: 1 | -1 | 0;
+  // 向きが反転した時点の段
+  reversalLevels: number[];
+};
+
+export function getStaircaseLadder(id: string): StaircaseLadder | undefined {
+  return STAIRCASE_LADDERS.find((ladder) => ladder.id === id);
+}
+
+export function createStaircase(ladder: StaircaseLadder, difficulty: StaircaseDifficulty): Staircase {
+  const startRatio = STAIRCASE_DIFFICULTIES.find((item) => item.value === difficulty)?.startRatio ?? 0;
+  return {
+    ladder,
+    level: Math.round(startRatio * (ladder.profileIds.length - 1)),
+    trials: [],
+    streak: 0,
+    direction: 0,
+    reversalLevels: []
+  };
+}
+
+export function getStaircaseProfileId(staircase: Staircase): ProfileId {
+  return staircase.ladder.profileIds[staircase.level];
+}
+
+export function isStaircaseFinished(staircase: Staircase): boolean {
+  return staircase.reversalLevels.length >= MAX_REVERSALS || staircase.trials.length >= MAX_TRIALS;
+}
+
+// 1試行の正誤を記録し、次に出題する段を決める
+export function recordStaircaseAnswer(staircase: Staircase, correct: boolean): Staircase {
+  const { ladder, level } = staircase;
+  const trials = [...staircase.trials, { level, profileId: getStaircaseProfileId(staircase), correct }];
+  const streak = correct ? staircase.streak + 1 : 0;
+  let move: 1 | -1 | 0 = 0;
+  if (!correct) {
+    move = -1;
+  } else if (streak >= 2) {
+    move = 1;
+  }
+  const nextLevel = Math.min(Math.max(level + move, 0), ladder.profileIds.length - 1);
+  // 段の端で動けなかった場合は向きを変えず、反転にも数えない
+  if (nextLevel === level) {
+    return { ...staircase, trials, streak: move === 1 ? 0 : streak };
+  }
+  const reversed = staircase.direction !== 0 && staircase.direction !== move;
+  return {
+    ladder,
+    level: nextLevel,
+    trials,
+    streak: 0,
+    direction: move,
+    reversalLevels: reversed ? [...staircase.reversalLevels, level] : staircase.reversalLevels
+  };
+}
+
+function getLevelKbps(ladder: StaircaseLadder, level: number): number | null {
+  return getProfile(ladder.profileIds[level])?.nominalKbps ?? null;
+}
+
+// 反転した段のビットレートの幾何平均を閾値とする。段がビットレートの比でほぼ等間隔に並ぶため
+// まだ反転していない場合はnull
+export function estimateStaircaseThreshold(staircase: Staircase): number | null {
+  const { reversalLevels, ladder } = staircase;
+  const used = reversalLevels.length > DISCARDED_REVERSALS ? reversalLevels.slice(DISCARDED_REVERSALS) : reversalLevels;
+  const kbps = used.map((level) => getLevelKbps(ladder, level)).filter((value): value is number => value !== null);
+  if (kbps.length === 0) {
+    return null;
+  }
+  return Math.round(Math.exp(kbps.reduce((sum, value) => sum + Math.log(value), 0) / kbps.length));
+}
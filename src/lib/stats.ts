@@ -0,0 +1,92 @@
+// 二項係数はlogで扱い、試行回数が増えても桁あふれしないようにする
+function logBinomialCoefficient(n: number, k: number): number {
+  let result = 0;
+  for (let i = 1; i <= k; i += 1) {
+    result += Math.log(n - k + i) - Math.log(i);
+  }
+  return result;
+}
+
+// 当てずっぽう(正答率1/2)でcorrect回以上正解する確率を片側検定で求める
+export function binomialPValue(correct: number, trials: number, chance = 0.5): number {
+  if (trials <= 0) {
+    return 1;
+  }
+  let pValue = 0;
+  for (let k = correct; k <= trials; k += 1) {
+    pValue += Math.exp(logBinomialCoefficient(trials, k) + k * Math.log(chance) + (trials - k) * Math.log(1 - chance));
+  }
+  return Math.min(pValue, 1);
+}
+
+// 各音質を1回ずつ使った並びを当てる問題で、当てずっぽうでも観測した数以上が一致する確率を求める。
+// 正解の並びは一様にランダムな置換とみなし、予想は固定して全置換のうち一致数がそれ以上になる割合を数える。
+// 予想は重複や未選択を含んでもよい。一致する位置の組み合わせの数(ルーク数)から包除原理で分布を出す
+export function permutationPValue(truths: string[], guesses: Array<string | null>): number {
+  const n = truths.length;
+  if (n === 0) {
+    return 1;
+  }
+  const observed = truths.filter((truth, index) => guesses[index] === truth).length;
+  // 正解に含まれる値ごとに、その値を予想した位置の数
+  const counts = new Map<string, number>();
+  for (const guess of guesses) {
+    if (guess !== null && truths.includes(guess)) {
+      counts.set(guess, (counts.get(guess) ?? 0) + 1);
+    }
+  }
+  // rooks[k]: 値が重ならないk個の一致を選ぶ組み合わせの数(countsの基本対称式)
+  const rooks = [1];
+  for (const count of counts.values()) {
+    for (let k = rooks.length; k >= 1; k -= 1) {
+      rooks[k] = (rooks[k] ?? 0) + (rooks[k - 1] ?? 0) * count;
+    }
+  }
+  // fixed[k]: k個の一致を指定したときに、それを含む置換が全体に占める割合 = rooks[k] * (n - k)! / n!
+  const fixed = rooks.map((rook, k) => {
+    let ratio = rook;
+    for (let i = 0; i < k; i += 1) {
+      ratio /= n - i;
+    }
+    return ratio;
+  });
+  let pValue = 0;
+  for (let exact = observed; exact < fixed.length; exact += 1) {
+    let probability = 0;
+    let choose = 1;
+    for (let k = exact; k < fixed.length; k += 1) {
+      probability += ((k - exact) % 2 === 0 ? 1 : -1) * choose * fixed[k];
+      choose = (choose * (k + 1)) / (k + 1 - exact);
+    }
+    pValue += probability;
+  }
+  return Math.min(Math.max(pValue, 0), 1);
+}
+
+// 両側95%のt分布の臨界値。自由度1〜30まで。それより大きい場合は正規分布の値で近似する
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+export type MeanInterval = {
+  count: number;
+  mean: number;
+  // 平均の95%信頼区間。1件しか無い場合は幅0になる
+  low: number;
+  high: number;
+};
+
+export function meanConfidenceInterval(values: number[]): MeanInterval {
+  const count = values.length;
+  if (count === 0) {
+    return { count, mean: 0, low: 0, high: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  if (count === 1) {
+    return { count, mean, low: mean, high: mean };
+  }
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1);
+  const margin = (T_CRITICAL_95[count - 2] ?? 1.96) * Math.sqrt(variance / count);
+  return { count, mean, low: mean - margin, high: mean + margin };
+}
@@ -0,0 +1,240 @@
+import type { Locale } from './i18n';
+import { createRandom } from './random';
+import { encodeWav } from './wav';
+
+// 手元にロスレス音源が無くても出題できるよう、ブラウザ内で合成するテスト信号と、public/samplesに置いた音源の一覧
+
+const SAMPLE_RATE = 44100;
+const SIGNAL_SECONDS = 30;
+// コーデックのオーバーシュートで割れないよう、ピークは-6dBFSに揃える
+const PEAK_LEVEL = 0.5;
+// 同じ信号を選べば誰でも同じ波形になるよう、ノイズは固定シードで作る(チャレンジリンクの再現に必要)
+const SIGNAL_SEED = 0x5eed;
+const FADE_SECONDS = 0.01;
+
+export const BUNDLED_SAMPLES_URL = '/samples/index.json';
+
+export type TestSignalId = 'tone-steps' | 'sweep' | 'castanets' | 'pink-noise' | 'plucked';
+
+// 選択肢に並べる順。表示名と説明は表示言語のメッセージから引く
+export const TEST_SIGNAL_IDS: TestSignalId[] = ['tone-steps', 'sweep', 'castanets', 'pink-noise', 'plucked'];
+
+type Synthesizer = (length: number, random: () => number) => Float32Array[];
+
+function fadeEdges(samples: Float32Array, start: number, end: number) {
+  const fade = Math.round(FADE_SECONDS * SAMPLE_RATE);
+  for (let i = 0; i < fade && start + i < end; i += 1) {
+    const gain = i / fade;
+    samples[start + i] *= gain;
+    samples[end - 1 - i] *= gain;
+  }
+}
+
+const synthesizeToneSteps: Synthesizer = (length) => {
+  const frequencies = [1000, 4000, 8000, 11000, 14000, 15000, 16000, 17000, 18000, 19000, 20000];
+  const stepLength = Math.round(1.5 * SAMPLE_RATE);
+  const samples = new Float32Array(length);
+  for (let start = 0, step = 0; start < length; start += stepLength, step += 1) {
+    const end = Math.min(start + stepLength, length);
+    const frequency = frequencies[step % frequencies.length];
+    for (let i = start; i < end; i += 1) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * (i - start)) / SAMPLE_RATE);
+    }
+    fadeEdges(samples, start, end);
+  }
+  return [samples, samples.slice()];
+};
+
+// 対数スイープ。1周15秒で繰り返す
+const synthesizeSweep: Synthesizer = (length) => {
+  const from = 20;
+  const to = 20000;
+  const sweepLength = 15 * SAMPLE_RATE;
+  const rate = Math.log(to / from);
+  const sweepSeconds = sweepLength / SAMPLE_RATE;
+  const samples = new Float32Array(length);
+  for (let start = 0; start < length; start += sweepLength) {
+    const end = Math.min(start + sweepLength, length);
+    for (let i = start; i < end; i += 1) {
+      const t = (i - start) / SAMPLE_RATE;
+      const phase = ((2 * Math.PI * from * sweepSeconds) / rate) * (Math.exp((t / sweepSeconds) * rate) - 1);
+      samples[i] = Math.sin(phase);
+    }
+    fadeEdges(samples, start, end);
+  }
+  return [samples, samples.slice()];
+};
+
+// 0.5秒ごとに2〜5打の連打を鳴らす。1打はノイズの破裂と短く減衰する共鳴の組み合わせ
+const synthesizeCastanets: Synthesizer = (length, random) => {
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+  const hitLength = Math.round(0.06 * SAMPLE_RATE);
+  for (let phrase = 0; phrase < length; phrase += Math.round(0.5 * SAMPLE_RATE)) {
+    const hits = 2 + Math.floor(random() * 4);
+    let position = phrase;
+    for (let hit = 0; hit < hits; hit += 1) {
+      const resonance = 2000 + random() * 2500;
+      const pan = 0.3 + random() * 0.4;
+      const velocity = 0.6 + random() * 0.4;
+      for (let i = 0; i < hitLength && position + i < length; i += 1) {
+        const t = i / SAMPLE_RATE;
+        const burst = (random() * 2 - 1) * Math.exp(-t / 0.002);
+        const ring = Math.sin(2 * Math.PI * resonance * t) * Math.exp(-t / 0.015);
+        const sample = (burst + ring) * velocity;
+        left[position + i] += sample * (1 - pan);
+        right[position + i] += sample * pan;
+      }
+      position += Math.round((0.05 + random() * 0.04) * SAMPLE_RATE);
+    }
+  }
+  return [left, right];
+};
+
+// Paul Kelletのフィルタで白色ノイズを-3dB/octに整形する
+const synthesizePinkNoise: Synthesizer = (length, random) =>
+  [0, 1].map(() => {
+    const samples = new Float32Array(length);
+    const b = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < length; i += 1) {
+      const white = random() * 2 - 1;
+      b[0] = 0.99886 * b[0] + white * 0.0555179;
+      b[1] = 0.99332 * b[1] + white * 0.0750759;
+      b[2] = 0.969 * b[2] + white * 0.153852;
+      b[3] = 0.8665 * b[3] + white * 0.3104856;
+      b[4] = 0.55 * b[4] + white * 0.5329522;
+      b[5] = -0.7616 * b[5] - white * 0.016898;
+      samples[i] = b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362;
+      b[6] = white * 0.115926;
+    }
+    fadeEdges(samples, 0, length);
+    return samples;
+  });
+
+// Karplus-Strong法で撥弦音を合成し、和音を順に分散させて鳴らす
+const synthesizePlucked: Synthesizer = (length, random) => {
+  const left = new Float32Array(length);
+  const right = new Float32Array(length);
+  const chords = [
+    [48, 55, 60, 64, 67, 72],
+    [45, 52, 57, 60, 64, 69],
+    [41, 48, 53, 57, 60, 65],
+    [43, 50, 55, 59, 62, 67]
+  ];
+  const noteInterval = Math.round(0.2 * SAMPLE_RATE);
+  const noteLength = Math.round(2 * SAMPLE_RATE);
+  for (let start = 0, note = 0; start < length; start += noteInterval, note += 1) {
+    const chord = chords[Math.floor(note / 8) % chords.length];
+    const midi = chord[note % chord.length];
+    const frequency = 440 * 2 ** ((midi - 69) / 12);
+    const delay = new Float32Array(Math.round(SAMPLE_RATE / frequency)).map(() => random() * 2 - 1);
+    const pan = (note % chord.length) / (chord.length - 1);
+    for (let i = 0; i < noteLength && start + i < length; i += 1) {
+      const index = i % delay.length;
+      const sample = delay[index];
+      delay[index] = 0.498 * (sample + delay[(index + 1) % delay.length]);
+      left[start + i] += sample * (1 - pan * 0.6);
+      right[start + i] += sample * (0.4 + pan * 0.6);
+    }
+  }
+  return [left, right];
+};
+
+const SYNTHESIZERS: Record<TestSignalId, Synthesizer> = {
+  'tone-steps': synthesizeToneSteps,
+  sweep: synthesizeSweep,
+  castanets: synthesizeCastanets,
+  'pink-noise': synthesizePinkNoise,
+  plucked: synthesizePlucked
+};
+
+function normalizePeak(channels: Float32Array[]) {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i += 1) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  if (peak === 0) {
+    return;
+  }
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i += 1) {
+      channel[i] *= PEAK_LEVEL / peak;
+    }
+  }
+}
+
+// アップロードされたファイルと同じ変換経路に流せるよう、WAVのFileとして返す
+export function generateTestSignal(id: TestSignalId): File {
+  const channels = SYNTHESIZERS[id](SIGNAL_SECONDS * SAMPLE_RATE, createRandom(SIGNAL_SEED));
+  normalizePeak(channels);
+  return new File([encodeWav(channels, SAMPLE_RATE)], `${id}.wav`, { type: 'audio/wav' });
+}
+
+export function isTestSignalId(value: string): value is TestSignalId {
+  return value in SYNTHESIZERS;
+}
+
+// 表示言語ごとの名前({ "ja": "…", "en": "…" })。文字列だけなら、どの言語でもそのまま表示する
+export type BundledSampleLabel = string | Partial<Record<Locale, string>>;
+
+// public/samples/index.jsonに列挙された、再配布が許可されたロスレス音源
+export type BundledSample = {
+  file: string;
+  label: BundledSampleLabel;
+  license: string;
+  attribution: string;
+  sourceUrl?: string;
+};
+
+function isBundledSample(value: unknown): value is BundledSample {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { file, label, license, attribution } = value as Record<string, unknown>;
+  return (
+    [file, license, attribution].every(isNonEmptyString) &&
+    (isNonEmptyString(label) ||
+      (typeof label === 'object' &&
+        label !== null &&
+        Object.values(label).length > 0 &&
+        Object.values(label).every(isNonEmptyString)))
+  );
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+// 表示言語の名前が無ければ、書かれている他の言語の名前で代用する
+export function getBundledSampleLabel(sample: BundledSample, locale: Locale): string {
+  if (typeof sample.label === 'string') {
+    return sample.label;
+  }
+  return sample.label[locale] ?? Object.values(sample.label)[0] ?? sample.file;
+}
+
+// 一覧が無い・壊れている場合は同梱音源なしとして扱い、合成信号だけで使えるようにする
+export async function fetchBundledSamples(): Promise<BundledSample[]> {
+  try {
+    const response = await fetch(BUNDLED_SAMPLES_URL);
+    if (!response.ok) {
+      return [];
+    }
+    const data: unknown = await response.json();
+    return Array.isArray(data) ? data.filter(isBundledSample) : [];
+  } catch (error) {
+    console.warn(error);
+    return [];
+  }
+}
+
+export async function loadBundledSample(sample: BundledSample): Promise<File> {
+  const response = await fetch(new URL(sample.file, new URL(BUNDLED_SAMPLES_URL, window.location.origin)));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${sample.file}: ${response.status}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], sample.file.split('/').pop() ?? sample.file, { type: blob.type });
+}
@@ -0,0 +1,46 @@
+// 生成した信号をffmpegやブラウザにそのまま渡せるPCMのWAVにまとめる。既定は16bit
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: 16 | 24 = 16): ArrayBuffer {
+  const channelCount = channels.length;
+  const frameCount = Math.min(...channels.map((channel) => channel.length));
+  const bytesPerSample = bitDepth / 8;
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+  const dataSize = frameCount * channelCount * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i += 1) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * bytesPerSample, true);
+  view.setUint16(32, channelCount * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24bitはDataViewに無いので、下位16bitと上位8bitに分けて書く
+        view.setUint16(offset, value & 0xffff, true);
+        view.setInt8(offset + 2, value >> 16);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
@@ -0,0 +1,24 @@
+// 波形表示用に、各区間の振幅の最大値(全チャンネル中)を求める
+export function computePeaks(channels: Float32Array[], bucketCount: number): Float32Array {
+  const peaks = new Float32Array(bucketCount);
+  const length = channels[0]?.length ?? 0;
+  if (length === 0 || bucketCount <= 0) {
+    return peaks;
+  }
+  const bucketSize = length / bucketCount;
+  for (let bucket = 0; bucket < bucketCount; bucket += 1) {
+    const start = Math.floor(bucket * bucketSize);
+    const end = Math.min(Math.floor((bucket + 1) * bucketSize), length);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i += 1) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) {
+          peak = value;
+        }
+      }
+    }
+    peaks[bucket] = peak;
+  }
+  return peaks;
+}
@@ -0,0 +1,21 @@
+// 本番ビルドのみService Workerを登録する。開発中はViteのHMRとキャッシュが干渉するため登録しない
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+  window.addEventListener('load', async () => {
+    try {
+      // ビルドごとにURLを変え、新しいビルドを配信したらService Workerとキャッシュが入れ替わるようにする
+      await navigator.serviceWorker.register(`/sw.js?v=${__BUILD_ID__}`);
+      const registration = await navigator.serviceWorker.ready;
+      // 登録前に読み込み済みのアセットも次回からオフラインで使えるよう、Service Workerにキャッシュを依頼する
+      const urls = performance
+        .getEntriesByType('resource')
+        .map((entry) => entry.name)
+        .filter((url) => new URL(url).origin === window.location.origin);
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+    } catch (error) {
+      console.warn(error);
+    }
+  });
+}
@@ -0,0 +1,259 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { parseArgs, promisify } from 'node:util';
+import { buildVariantPlans, getFileExtension } from '../lib/conversionPlan';
+import { buildLoudnessCommand, parseIntegratedLoudness } from '../lib/loudness';
+import {
+  DEFAULT_ROUND_PROFILE_IDS,
+  MIN_ROUND_PROFILES,
+  type ProfileId,
+  getProfile,
+  resolveStrictBlindOutput,
+  sortProfileIds
+} from '../lib/profiles';
+import { type ClipRegion, DEFAULT_CLIP_SECONDS, fitClipRegion, pickRandomClipStart, shuffle } from '../lib/quiz';
+import { createRandom, createSeed } from '../lib/random';
+import {
+  type ManifestRound,
+  type ManifestTrack,
+  ROUND_MANIFEST_FILE_NAME,
+  type RoundManifest
+} from '../lib/roundManifest';
+import { type PackageTrack, buildRoundPackageEntries, createPassphrase } from '../lib/roundPackage';
+import { isAudioFileName } from '../lib/session';
+import { type SourceInfo, assessSource, describeSourceIssue, parseProbeOutput } from '../lib/sourceProbe';
+
+// 音楽フォルダからクイズのラウンドを事前に作るCLI。ブラウザと同じプロファイル定義で、ローカルのffmpegを使って変換する
+//
+// node --import tsx ./src/scripts/generateRounds.ts <音楽フォルダ> <出力フォルダ> [オプション]
+//   --profiles mp3_128,mp3_320,original  比較する音質(既定はブラウザの初期値と同じ)
+//   --per-round 3                        1曲あたりに比べる音質の数(既定は--profilesのすべて)
+//   --clip 30                            区間の長さ(秒)。0で曲の最後まで
+//   --random-start                       曲の中からランダムな位置を区間の開始位置にする
+//   --no-strict-blind                    エンコード結果をWAVに揃えずそのまま書き出す
+//   --seed 1234                          音質の選び方と出題順を決める乱数のシード
+//   --passphrase XXXX-XXXX-XXXX          解答を封じる合言葉(既定は自動で作る)
+//   --ffmpeg / --ffprobe                 使うffmpeg・ffprobeのパス
+
+const run = promisify(execFile);
+
+// ffmpegのログは標準エラーに出る。ebur128のSummaryもここから読む
+async function runFFmpeg(ffmpegPath: string, args: string[]): Promise<string[]> {
+  const { stderr } = await run(ffmpegPath, ['-hide_banner', '-nostdin', '-y', ...args], {
+    maxBuffer: 64 * 1024 * 1024
+  });
+  return stderr.split(/\r?\n/);
+}
+
+async function probe(ffprobePath: string, filePath: string): Promise<SourceInfo> {
+  const { stdout } = await run(ffprobePath, ['-v', 'error', '-show_format', '-show_streams', '-of', 'json', filePath], {
+    maxBuffer: 16 * 1024 * 1024
+  });
+  return parseProbeOutput(stdout);
+}
+
+// サブフォルダも含めて音声ファイルを集め、相対パスの順に並べる
+async function collectAudioPaths(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && isAudioFileName(entry.name))
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// オリジナルをそのまま書き出す場合のMIME。入力はロスレスに限るので主な形式だけを扱う
+const LOSSLESS_MIME_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff'
+};
+
+type GeneratedTrack = Omit<PackageTrack, 'blob'> & {
+  path: string;
+  mime: string;
+  encodedBytes: number;
+  loudness: number | null;
+};
+
+type RoundOptions = {
+  ffmpegPath: string;
+  workDirectory: string;
+  sourcePath: string;
+  profileIds: ProfileId[];
+  region: ClipRegion;
+  strictBlind: boolean;
+};
+
+// ブラウザの変換と同じ計画でバリアントを作り、ラウドネスを測る
+async function generateVariants(options: RoundOptions): Promise<GeneratedTrack[]> {
+  const { ffmpegPath, workDirectory, sourcePath, profileIds, region, strictBlind } = options;
+  const originalExtension = getFileExtension(sourcePath);
+  const plans = buildVariantPlans({
+    inputName: sourcePath,
+    namePrefix: path.join(workDirectory, 'variant'),
+    profileIds,
+    region,
+    strictBlind,
+    originalExtension,
+    originalType: LOSSLESS_MIME_TYPES[originalExtension.toLowerCase()] ?? ''
+  });
+  const tracks: GeneratedTrack[] = [];
+  for (const plan of plans) {
+    await runFFmpeg(ffmpegPath, [...plan.command, plan.outputName]);
+    if (plan.pcm) {
+      await runFFmpeg(ffmpegPath, ['-i', plan.outputName, ...plan.pcm.args, plan.pcm.name]);
+    }
+    const resultPath = plan.pcm?.name ?? plan.outputName;
+    const loudness = parseIntegratedLoudness(await runFFmpeg(ffmpegPath, buildLoudnessCommand(resultPath)));
+    tracks.push({
+      profileId: plan.profileId,
+      fileName: path.basename(resultPath),
+      path: resultPath,
+      mime: plan.mime,
+      encodedBytes: (await stat(plan.outputName)).size,
+      loudness
+    });
+  }
+  return tracks;
+}
+
+// 厳密ブラインドのWAVは一番静かなトラックに合わせて音量を下げ、ファイル自体のラウドネスを揃える
+// 下げるだけなのでクリップしない。エンコード結果をそのまま書き出す場合は、測った値をブラウザ側の補正に任せる
+async function matchLoudness(
+  ffmpegPath: string,
+  tracks: GeneratedTrack[],
+  profileIds: ProfileId[],
+  strictBlind: boolean
+): Promise<GeneratedTrack[]> {
+  const measured = tracks.map((track) => track.loudness).filter((value): value is number => value !== null);
+  if (!strictBlind || measured.length === 0) {
+    return tracks;
+  }
+  const target = Math.min(...measured);
+  const output = resolveStrictBlindOutput(profileIds);
+  return Promise.all(
+    tracks.map(async (track) => {
+      if (track.loudness === null || track.loudness - target < 0.05) {
+        return track;
+      }
+      const matchedPath = track.path.replace(/\.wav$/, '_matched.wav');
+      const gain = (target - track.loudness).toFixed(2);
+      await runFFmpeg(ffmpegPath, ['-i', track.path, '-af', `volume=${gain}dB`, ...output.args, matchedPath]);
+      return { ...track, path: matchedPath, loudness: target };
+    })
+  );
+}
+
+function parseProfileIds(value: string | undefined): ProfileId[] {
+  const ids = value ? value.split(',').map((id) => id.trim()) : DEFAULT_ROUND_PROFILE_IDS;
+  const unknown = ids.filter((id) => !getProfile(id));
+  if (unknown.length > 0) {
+    throw new Error(`不明な音質です: ${unknown.join(', ')}`);
+  }
+  return sortProfileIds(ids);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profiles: { type: 'string' },
+      'per-round': { type: 'string' },
+      clip: { type: 'string', default: String(DEFAULT_CLIP_SECONDS) },
+      'random-start': { type: 'boolean', default: false },
+      'no-strict-blind': { type: 'boolean', default: false },
+      seed: { type: 'string' },
+      passphrase: { type: 'string' },
+      ffmpeg: { type: 'string', default: 'ffmpeg' },
+      ffprobe: { type: 'string', default: 'ffprobe' }
+    }
+  });
+  const [inputDirectory, outputDirectory] = positionals;
+  if (!inputDirectory || !outputDirectory) {
+    throw new Error('使い方: generateRounds.ts <音楽フォルダ> <出力フォルダ> [--profiles mp3_128,original ...]');
+  }
+  const pool = parseProfileIds(values.profiles);
+  const perRound = Math.min(Number(values['per-round'] ?? pool.length), pool.length);
+  if (!Number.isInteger(perRound) || perRound < MIN_ROUND_PROFILES) {
+    throw new Error(`比較する音質は${MIN_ROUND_PROFILES}個以上にしてください。`);
+  }
+  const clipSeconds = Number(values.clip) > 0 ? Number(values.clip) : null;
+  const strictBlind = !values['no-strict-blind'];
+  const random = createRandom(values.seed !== undefined ? Number(values.seed) : createSeed());
+  const passphrase = values.passphrase ?? createPassphrase();
+  const ffmpegPath = values.ffmpeg;
+  const ffprobePath = values.ffprobe;
+
+  const sourcePaths = await collectAudioPaths(inputDirectory);
+  if (sourcePaths.length === 0) {
+    throw new Error(`${inputDirectory}に音声ファイルがありません。`);
+  }
+  await mkdir(outputDirectory, { recursive: true });
+  const rounds: ManifestRound[] = [];
+  for (const sourcePath of sourcePaths) {
+    const label = path.relative(inputDirectory, sourcePath);
+    const info = await probe(ffprobePath, sourcePath);
+    // ロスレスでない音源はオリジナルとして比べる意味が薄いので、ブラウザの注意表示と同じ基準で飛ばす
+    if (!info.lossless) {
+      console.warn(`スキップ: ${label} (ロスレスではありません: ${info.codec ?? '音声なし'})`);
+      continue;
+    }
+    const profileIds = sortProfileIds(shuffle(pool, random).slice(0, perRound));
+    const blocking = assessSource(info, profileIds).find((issue) => issue.level === 'block');
+    if (blocking) {
+      console.warn(`スキップ: ${label} (${describeSourceIssue(blocking)})`);
+      continue;
+    }
+    const start = values['random-start'] ? pickRandomClipStart(clipSeconds, info.durationSeconds, random) : 0;
+    const region = fitClipRegion(start, clipSeconds, info.durationSeconds);
+    const id = `round-${String(rounds.length + 1).padStart(3, '0')}`;
+    console.log(`${id}: ${label}`);
+
+    const workDirectory = await mkdtemp(path.join(tmpdir(), 'audio-quality-quiz-'));
+    try {
+      const variants = await generateVariants({
+        ffmpegPath,
+        workDirectory,
+        sourcePath,
+        profileIds,
+        region,
+        strictBlind
+      });
+      const matched = await matchLoudness(ffmpegPath, variants, profileIds, strictBlind);
+      const tracks: Array<GeneratedTrack & PackageTrack> = await Promise.all(
+        shuffle(matched, random).map(async (track) => ({ ...track, blob: new Blob([await readFile(track.path)]) }))
+      );
+      const roundInfo = { fileName: path.basename(sourcePath), region, strictBlind };
+      const { entries, sealed } = await buildRoundPackageEntries(tracks, roundInfo, passphrase);
+      const roundDirectory = path.join(outputDirectory, id);
+      await mkdir(roundDirectory, { recursive: true });
+      for (const entry of entries) {
+        await writeFile(path.join(roundDirectory, entry.name), entry.data);
+      }
+      // パッケージのトラックは出題順に並んでいるので、同じ順でマニフェストに載せる
+      const manifestTracks: ManifestTrack[] = tracks.map((track, index) => ({
+        file: `${id}/${entries[index].name}`,
+        mime: track.mime,
+        encodedBytes: track.encodedBytes,
+        loudness: track.loudness
+      }));
+      rounds.push({ id, ...roundInfo, tracks: manifestTracks, answerKey: sealed });
+    } finally {
+      await rm(workDirectory, { recursive: true, force: true });
+    }
+  }
+
+  const manifest: RoundManifest = { version: 1, generatedAt: new Date().toISOString(), rounds };
+  await writeFile(path.join(outputDirectory, ROUND_MANIFEST_FILE_NAME), JSON.stringify(manifest, null, 2));
+  console.log(`${rounds.length}ラウンドを${outputDirectory}に書き出しました。`);
+  console.log(`合言葉: ${passphrase}`);
+  console.log('ブラウザで出力フォルダを読み込み、この合言葉を入力すると出題できます。');
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,2 +0,0 @@
-const message: string = 'Hello, World!';
-console.log(message);
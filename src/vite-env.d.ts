@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// vite.config.tsでビルドごとに埋め込むID
+declare const __BUILD_ID__: string;
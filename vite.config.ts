@@ -5,6 +5,10 @@ import { defineConfig } from 'vite';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react(), vanillaExtractPlugin()],
+  define: {
+    // Service Workerのキャッシュ名に使う。ビルドするたびに変わればよい
+    __BUILD_ID__: JSON.stringify(Date.now().toString(36))
+  },
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util', '@ffmpeg/core']
   }